@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown } from 'lucide-react';
+import { SEASON_LABELS, formatWindows, parseWindows } from '@/lib/load-profile';
+import type { ApplianceSchedule, ScheduleVariant, Season, TimeWindow } from '@/types/energy';
+
+interface ApplianceScheduleEditorProps {
+  schedule: ApplianceSchedule;
+  deferrable?: boolean;
+  onChange: (schedule: ApplianceSchedule) => void;
+}
+
+interface WindowsInputProps {
+  value?: TimeWindow[];
+  placeholder: string;
+  onCommit: (windows: TimeWindow[] | undefined) => void;
+}
+
+// Edits "HH:MM-HH:MM" windows as text and parses them when the field loses focus
+const WindowsInput = ({ value, placeholder, onCommit }: WindowsInputProps) => {
+  const formatted = value ? formatWindows(value) : '';
+  const [text, setText] = useState(formatted);
+
+  useEffect(() => {
+    setText(formatted);
+  }, [formatted]);
+
+  return (
+    <Input
+      value={text}
+      placeholder={placeholder}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => {
+        const windows = parseWindows(text);
+        onCommit(text.trim() && windows.length > 0 ? windows : undefined);
+        setText(formatted);
+      }}
+    />
+  );
+};
+
+const ApplianceScheduleEditor = ({ schedule, deferrable, onChange }: ApplianceScheduleEditorProps) => {
+  const updateSeason = (season: Season, variant: ScheduleVariant) => {
+    const seasons = { ...schedule.seasons, [season]: variant };
+    if (!variant.weekday && !variant.weekend && variant.dutyCycle === undefined) delete seasons[season];
+    onChange({ ...schedule, seasons });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid md:grid-cols-3 gap-3">
+        <div>
+          <label className="text-xs font-medium text-muted-foreground">Weekday Windows</label>
+          <WindowsInput
+            value={schedule.weekday}
+            placeholder="e.g., 06:00-08:00, 18:00-22:00"
+            onCommit={(weekday) => onChange({ ...schedule, weekday: weekday ?? schedule.weekday })}
+          />
+        </div>
+        <div>
+          <label className="text-xs font-medium text-muted-foreground">Weekend Windows</label>
+          <WindowsInput
+            value={schedule.weekend}
+            placeholder="Same as weekdays"
+            onCommit={(weekend) => onChange({ ...schedule, weekend })}
+          />
+        </div>
+        <div>
+          <label className="text-xs font-medium text-muted-foreground">Duty Cycle (%)</label>
+          <Input
+            type="number"
+            min="0"
+            max="100"
+            value={Math.round(schedule.dutyCycle * 100)}
+            onChange={(e) => onChange({ ...schedule, dutyCycle: Number(e.target.value) / 100 })}
+          />
+        </div>
+      </div>
+
+      {deferrable && (
+        <div>
+          <label className="text-xs font-medium text-muted-foreground">Can Be Moved Within</label>
+          <WindowsInput
+            value={schedule.allowed}
+            placeholder="Leave empty to keep this schedule fixed"
+            onCommit={(allowed) => onChange({ ...schedule, allowed })}
+          />
+        </div>
+      )}
+
+      <Collapsible>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="gap-1 px-2">
+            <ChevronDown className="w-4 h-4" />
+            Seasonal variants ({Object.keys(schedule.seasons ?? {}).length})
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="space-y-2 pt-2">
+          {(Object.keys(SEASON_LABELS) as Season[]).map(season => {
+            const variant = schedule.seasons?.[season] ?? {};
+            return (
+              <div key={season} className="grid md:grid-cols-4 gap-3 items-end">
+                <p className="text-sm font-medium pb-2">{SEASON_LABELS[season]}</p>
+                <WindowsInput
+                  value={variant.weekday}
+                  placeholder="Weekday windows"
+                  onCommit={(weekday) => updateSeason(season, { ...variant, weekday })}
+                />
+                <WindowsInput
+                  value={variant.weekend}
+                  placeholder="Weekend windows"
+                  onCommit={(weekend) => updateSeason(season, { ...variant, weekend })}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  placeholder="Duty cycle (%)"
+                  value={variant.dutyCycle === undefined ? '' : Math.round(variant.dutyCycle * 100)}
+                  onChange={(e) => updateSeason(season, {
+                    ...variant,
+                    dutyCycle: e.target.value === '' ? undefined : Number(e.target.value) / 100
+                  })}
+                />
+              </div>
+            );
+          })}
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+};
+
+export default ApplianceScheduleEditor;
@@ -0,0 +1,76 @@
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Battery } from 'lucide-react';
+import { BATTERY_CHEMISTRY_LABELS, BATTERY_PRESETS, type BatteryChemistry, type BatterySpec } from '@/lib/battery';
+
+interface BatterySettingsProps {
+  spec: BatterySpec;
+  equivalentCycles: number;
+  stateOfHealth: number;
+  onChange: (spec: BatterySpec) => void;
+}
+
+// Percent fields are edited as percentages and stored as fractions
+const FIELDS: Array<{ key: Exclude<keyof BatterySpec, 'chemistry'>; label: string; step: string; percent?: boolean }> = [
+  { key: 'roundTripEfficiency', label: 'Round-trip Efficiency (%)', step: '0.5', percent: true },
+  { key: 'depthOfDischarge', label: 'Depth of Discharge (%)', step: '1', percent: true },
+  { key: 'maxChargeRate', label: 'Max Charge Rate (C)', step: '0.05' },
+  { key: 'maxDischargeRate', label: 'Max Discharge Rate (C)', step: '0.05' },
+  { key: 'selfDischarge', label: 'Self-discharge (%/month)', step: '0.5', percent: true },
+  { key: 'cycleLife', label: 'Cycle Life (cycles)', step: '100' },
+  { key: 'endOfLifeCapacity', label: 'End-of-life Capacity (%)', step: '1', percent: true }
+];
+
+const BatterySettings = ({ spec, equivalentCycles, stateOfHealth, onChange }: BatterySettingsProps) => {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Battery className="w-4 h-4 text-energy-battery" />
+          <h4 className="font-semibold">Battery Bank</h4>
+        </div>
+        <div className="flex gap-2">
+          <Badge variant="secondary">{equivalentCycles.toFixed(1)} cycles</Badge>
+          <Badge variant="outline">{(stateOfHealth * 100).toFixed(1)}% health</Badge>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div>
+          <label className="text-xs font-medium text-muted-foreground">Chemistry</label>
+          <Select
+            value={spec.chemistry}
+            onValueChange={(chemistry) => onChange(BATTERY_PRESETS[chemistry as BatteryChemistry])}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(BATTERY_CHEMISTRY_LABELS).map(([chemistry, label]) => (
+                <SelectItem key={chemistry} value={chemistry}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {FIELDS.map(({ key, label, step, percent }) => (
+          <div key={key}>
+            <label className="text-xs font-medium text-muted-foreground">{label}</label>
+            <Input
+              type="number"
+              step={step}
+              min="0"
+              value={percent ? Number((spec[key] * 100).toFixed(3)) : spec[key]}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                onChange({ ...spec, [key]: percent ? value / 100 : value });
+              }}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BatterySettings;
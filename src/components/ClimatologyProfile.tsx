@@ -0,0 +1,97 @@
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { CalendarRange } from 'lucide-react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import {
+  ANALYSIS_MODE_LABELS, MONTH_LABELS, annualMean, type AnalysisMode, type MonthlyClimatology
+} from '@/lib/climatology';
+
+interface ClimatologyProfileProps {
+  climatology: MonthlyClimatology | null;
+  mode: AnalysisMode;
+  onModeChange: (mode: AnalysisMode) => void;
+}
+
+const ClimatologyProfile = ({ climatology, mode, onModeChange }: ClimatologyProfileProps) => {
+  const chartData = climatology
+    ? MONTH_LABELS.map((month, i) => ({
+        month,
+        solar: climatology.solar[i],
+        wind: climatology.wind[i]
+      }))
+    : [];
+
+  return (
+    <Card className="glass-card p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <CalendarRange className="w-5 h-5 text-primary" />
+          <h3 className="text-xl font-semibold">12-Month Resource Profile</h3>
+        </div>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={mode}
+          onValueChange={(value) => value && onModeChange(value as AnalysisMode)}
+        >
+          {(Object.keys(ANALYSIS_MODE_LABELS) as AnalysisMode[]).map(option => (
+            <ToggleGroupItem key={option} value={option} disabled={option === 'climatology' && !climatology}>
+              {ANALYSIS_MODE_LABELS[option]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {mode === 'climatology' && climatology
+          ? 'Feasibility, dispatch and costs use a typical year built from NASA POWER long-term monthly means.'
+          : 'Feasibility, dispatch and costs use only the last 30 days, which can over- or under-state a site in a single season.'}
+      </p>
+
+      {climatology ? (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="secondary">Solar {annualMean(climatology.solar).toFixed(2)} kWh/m²/day annual mean</Badge>
+            <Badge variant="secondary">Wind {annualMean(climatology.wind).toFixed(2)} m/s annual mean</Badge>
+            <Badge variant="outline">
+              Best solar month: {MONTH_LABELS[climatology.solar.indexOf(Math.max(...climatology.solar))]}
+            </Badge>
+            <Badge variant="outline">
+              Weakest solar month: {MONTH_LABELS[climatology.solar.indexOf(Math.min(...climatology.solar))]}
+            </Badge>
+          </div>
+
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="month" stroke="hsl(var(--muted-foreground))" />
+                <YAxis yAxisId="solar" stroke="hsl(var(--solar))" unit=" kWh" />
+                <YAxis yAxisId="wind" orientation="right" stroke="hsl(var(--wind))" unit=" m/s" />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px'
+                  }}
+                  formatter={(value: number) => value.toFixed(2)}
+                />
+                <Legend />
+                <Bar yAxisId="solar" dataKey="solar" name="Solar (kWh/m²/day)" fill="hsl(var(--solar))" radius={[4, 4, 0, 0]} />
+                <Line yAxisId="wind" type="monotone" dataKey="wind" name="Wind (m/s)" stroke="hsl(var(--wind))" strokeWidth={2} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Long-term means are not available for this location yet. Refresh once online to fetch them.
+        </p>
+      )}
+    </Card>
+  );
+};
+
+export default ClimatologyProfile;
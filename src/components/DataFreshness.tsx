@@ -0,0 +1,39 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { RefreshCw } from 'lucide-react';
+import { isStale, type DataSource } from '@/lib/nasa-power';
+
+interface DataFreshnessProps {
+  source: DataSource;
+  fetchedAt?: string;
+  loading: boolean;
+  onRefresh: () => void;
+}
+
+const DataFreshness = ({ source, fetchedAt, loading, onRefresh }: DataFreshnessProps) => {
+  if (!fetchedAt) return null;
+
+  const stale = isStale(fetchedAt);
+  const fetched = new Date(fetchedAt).toLocaleString();
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      {stale ? (
+        <Badge variant="destructive">Stale</Badge>
+      ) : source === 'cache' ? (
+        <Badge variant="outline">Cached</Badge>
+      ) : (
+        <Badge variant="secondary">Live</Badge>
+      )}
+      <span className="text-muted-foreground">
+        {source === 'cache' ? `Using cached data from ${fetched}` : `NASA POWER data fetched ${fetched}`}
+      </span>
+      <Button variant="ghost" size="sm" onClick={onRefresh} disabled={loading}>
+        <RefreshCw className={`w-4 h-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+        Refresh
+      </Button>
+    </div>
+  );
+};
+
+export default DataFreshness;
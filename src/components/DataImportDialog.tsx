@@ -0,0 +1,342 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { FileUp } from 'lucide-react';
+import { formatLocalHour, type DateOrder, type GapReport } from '@/lib/csv-import';
+import {
+  IRRADIANCE_UNITS, TEMPERATURE_UNITS, WEATHER_FIELD_LABELS, WEATHER_FILE_FORMAT_LABELS, WIND_UNITS,
+  importWeatherFile, inspectWeatherFile, type UploadedWeather, type WeatherField, type WeatherFileInspection
+} from '@/lib/weather-file';
+import {
+  METER_FIELD_LABELS, METER_UNITS, importMeterFile, inspectMeterFile, meanDailyEnergy,
+  type MeterField, type MeterFileInspection, type MeterImport
+} from '@/lib/meter-file';
+import type { ImportMode, MeasuredLoad } from '@/types/energy';
+
+type ImportKind = 'weather' | 'meter';
+
+interface DataImportDialogProps {
+  timeZone: string;
+  disabled?: boolean;
+  onImportWeather: (upload: UploadedWeather) => void;
+  onImportMeter: (load: MeasuredLoad) => void;
+}
+
+const MODE_LABELS: Record<ImportKind, Record<ImportMode, string>> = {
+  weather: { replace: 'Replace NASA data', calibrate: 'Calibrate NASA data' },
+  meter: { replace: 'Replace appliance load', calibrate: 'Calibrate appliance load' }
+};
+
+const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  ymd: 'Year-month-day',
+  dmy: 'Day/month/year',
+  mdy: 'Month/day/year'
+};
+
+const NONE = '-1';
+
+interface ColumnSelectProps {
+  label: string;
+  headers: string[];
+  value: number;
+  disabled?: boolean;
+  onChange: (column: number) => void;
+}
+
+const ColumnSelect = ({ label, headers, value, disabled, onChange }: ColumnSelectProps) => (
+  <div className="space-y-1">
+    <Label className="text-xs">{label}</Label>
+    <Select value={String(value)} onValueChange={(column) => onChange(Number(column))} disabled={disabled}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>Not in file</SelectItem>
+        {headers.map((header, i) => (
+          <SelectItem key={i} value={String(i)}>{header || `Column ${i + 1}`}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+interface OptionSelectProps<T extends string> {
+  label: string;
+  options: T[];
+  value: T;
+  format?: (option: T) => string;
+  disabled?: boolean;
+  onChange: (option: T) => void;
+}
+
+const OptionSelect = <T extends string>({ label, options, value, format, disabled, onChange }: OptionSelectProps<T>) => (
+  <div className="space-y-1">
+    <Label className="text-xs">{label}</Label>
+    <Select value={value} onValueChange={(option) => onChange(option as T)} disabled={disabled}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map(option => (
+          <SelectItem key={option} value={option}>{format ? format(option) : option}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+const GapSummary = ({ gaps, timeZone }: { gaps: GapReport | null; timeZone: string }) => {
+  if (!gaps) return null;
+  return (
+    <div className="space-y-1 text-sm">
+      <div className="flex flex-wrap gap-2">
+        <Badge variant={gaps.completeness < 0.9 ? 'destructive' : 'secondary'}>
+          {(gaps.completeness * 100).toFixed(1)}% complete
+        </Badge>
+        <Badge variant="outline">{gaps.present} of {gaps.expected} hours</Badge>
+        <Badge variant="outline">
+          {formatLocalHour(gaps.start, timeZone)} to {formatLocalHour(gaps.end, timeZone)}
+        </Badge>
+      </div>
+      {gaps.gaps.length > 0 && (
+        <ul className="text-xs text-muted-foreground">
+          {gaps.gaps.map(gap => (
+            <li key={gap.start}>
+              {gap.hours} h missing from {formatLocalHour(gap.start, timeZone)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// Guided import of logger files: pick a file, confirm the detected columns and
+// units, review the gaps, then choose whether it replaces or calibrates.
+const DataImportDialog = ({ timeZone, disabled, onImportWeather, onImportMeter }: DataImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<ImportKind>('weather');
+  const [mode, setMode] = useState<ImportMode>('replace');
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [weather, setWeather] = useState<WeatherFileInspection | null>(null);
+  const [meter, setMeter] = useState<MeterFileInspection | null>(null);
+
+  const reset = (nextKind: ImportKind) => {
+    setKind(nextKind);
+    setFile(null);
+    setWeather(null);
+    setMeter(null);
+  };
+
+  const readFile = async (picked: File) => {
+    const text = await picked.text();
+    setFile({ name: picked.name, text });
+    if (kind === 'weather') setWeather(inspectWeatherFile(text));
+    else setMeter(inspectMeterFile(text));
+  };
+
+  // Re-run the import as settings change so the gap report stays current
+  const preview = useMemo((): { weather?: UploadedWeather; meter?: MeterImport; error?: string } => {
+    if (!file) return {};
+    try {
+      if (kind === 'weather' && weather) return { weather: importWeatherFile(file.name, file.text, weather, timeZone, mode) };
+      if (kind === 'meter' && meter) return { meter: importMeterFile(file.name, file.text, meter, timeZone, mode) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+    return {};
+  }, [file, kind, weather, meter, timeZone, mode]);
+
+  const inspection = kind === 'weather' ? weather : meter;
+  const fixedLayout = kind === 'weather' && weather?.format !== 'csv';
+
+  const confirm = () => {
+    if (preview.weather) onImportWeather(preview.weather);
+    if (preview.meter) onImportMeter(preview.meter.load);
+    setOpen(false);
+    reset(kind);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <FileUp className="w-4 h-4 mr-1" />
+          Import Logger Data
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import measured data</DialogTitle>
+          <DialogDescription>
+            Weather files (CSV, TMY3 or EPW) from a pyranometer or anemometer, or smart-meter logs for the load.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={kind} onValueChange={(value) => reset(value as ImportKind)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="weather">Weather</TabsTrigger>
+            <TabsTrigger value="meter">Meter</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <input
+          key={kind}
+          type="file"
+          accept=".csv,.txt,.epw"
+          className="text-sm"
+          onChange={(e) => {
+            const picked = e.target.files?.[0];
+            if (picked) readFile(picked);
+          }}
+        />
+
+        {inspection && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              {weather && kind === 'weather' && (
+                <Badge variant="secondary">{WEATHER_FILE_FORMAT_LABELS[weather.format]}</Badge>
+              )}
+              <span className="text-xs text-muted-foreground">
+                {fixedLayout ? 'Standard layout; columns and units are fixed.' : 'Check the detected columns and units.'}
+              </span>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-3">
+              {kind === 'weather' && weather && (
+                <>
+                  {(Object.keys(WEATHER_FIELD_LABELS) as WeatherField[]).map(field => (
+                    <ColumnSelect
+                      key={field}
+                      label={WEATHER_FIELD_LABELS[field]}
+                      headers={weather.headers}
+                      value={weather.mapping[field]}
+                      disabled={fixedLayout}
+                      onChange={(column) => setWeather({ ...weather, mapping: { ...weather.mapping, [field]: column } })}
+                    />
+                  ))}
+                  <OptionSelect
+                    label="Irradiance unit"
+                    options={IRRADIANCE_UNITS}
+                    value={weather.units.irradiance}
+                    disabled={fixedLayout}
+                    onChange={(irradiance) => setWeather({ ...weather, units: { ...weather.units, irradiance } })}
+                  />
+                  <OptionSelect
+                    label="Temperature unit"
+                    options={TEMPERATURE_UNITS}
+                    value={weather.units.temperature}
+                    disabled={fixedLayout}
+                    onChange={(temperature) => setWeather({ ...weather, units: { ...weather.units, temperature } })}
+                  />
+                  <OptionSelect
+                    label="Wind speed unit"
+                    options={WIND_UNITS}
+                    value={weather.units.windSpeed}
+                    disabled={fixedLayout}
+                    onChange={(windSpeed) => setWeather({ ...weather, units: { ...weather.units, windSpeed } })}
+                  />
+                  <OptionSelect
+                    label="Date order"
+                    options={Object.keys(DATE_ORDER_LABELS) as DateOrder[]}
+                    value={weather.dateOrder}
+                    format={(order) => DATE_ORDER_LABELS[order]}
+                    disabled={fixedLayout}
+                    onChange={(dateOrder) => setWeather({ ...weather, dateOrder })}
+                  />
+                </>
+              )}
+              {kind === 'meter' && meter && (
+                <>
+                  {(Object.keys(METER_FIELD_LABELS) as MeterField[]).map(field => (
+                    <ColumnSelect
+                      key={field}
+                      label={METER_FIELD_LABELS[field]}
+                      headers={meter.headers}
+                      value={meter.mapping[field]}
+                      onChange={(column) => setMeter({ ...meter, mapping: { ...meter.mapping, [field]: column } })}
+                    />
+                  ))}
+                  <OptionSelect
+                    label="Reading unit"
+                    options={METER_UNITS}
+                    value={meter.unit}
+                    onChange={(unit) => setMeter({ ...meter, unit })}
+                  />
+                  <OptionSelect
+                    label="Date order"
+                    options={Object.keys(DATE_ORDER_LABELS) as DateOrder[]}
+                    value={meter.dateOrder}
+                    format={(order) => DATE_ORDER_LABELS[order]}
+                    onChange={(dateOrder) => setMeter({ ...meter, dateOrder })}
+                  />
+                </>
+              )}
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {inspection.headers.map((header, i) => (
+                      <TableHead key={i} className="whitespace-nowrap text-xs">{header}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {inspection.preview.map((row, i) => (
+                    <TableRow key={i}>
+                      {inspection.headers.map((_, j) => (
+                        <TableCell key={j} className="whitespace-nowrap text-xs">{row[j]}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {preview.error && <p className="text-sm text-destructive">{preview.error}</p>}
+            <GapSummary gaps={preview.weather?.gaps ?? preview.meter?.gaps ?? null} timeZone={timeZone} />
+            {preview.meter && (
+              <p className="text-sm text-muted-foreground">
+                {preview.meter.load.days} days logged, averaging {meanDailyEnergy(preview.meter.load).toFixed(1)} kWh/day
+              </p>
+            )}
+
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={mode}
+              onValueChange={(value) => value && setMode(value as ImportMode)}
+            >
+              {(Object.keys(MODE_LABELS[kind]) as ImportMode[]).map(option => (
+                <ToggleGroupItem key={option} value={option}>{MODE_LABELS[kind][option]}</ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <p className="text-xs text-muted-foreground">
+              {mode === 'replace'
+                ? 'The imported series is used as-is in place of the modelled data.'
+                : 'The modelled data keeps its shape but is scaled to the level the file measured.'}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={confirm} disabled={!preview.weather && !preview.meter}>Import</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DataImportDialog;
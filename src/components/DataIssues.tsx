@@ -0,0 +1,44 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, X } from 'lucide-react';
+import { API_ERROR_LABELS, type DataIssue } from '@/lib/api-client';
+
+interface DataIssuesProps {
+  issues: DataIssue[];
+  onDismiss?: () => void;
+}
+
+const DataIssues = ({ issues, onDismiss }: DataIssuesProps) => {
+  if (issues.length === 0) return null;
+
+  // Gaps in otherwise good data are a caution; anything else means data is missing or old
+  const failed = issues.some(issue => issue.category !== 'fill-value');
+
+  return (
+    <Alert variant={failed ? 'destructive' : 'default'}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle className="flex items-center justify-between gap-2">
+        {failed ? 'Some data could not be loaded' : 'Some values were left out'}
+        {onDismiss && (
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onDismiss} aria-label="Dismiss">
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="space-y-1">
+          {issues.map((issue, index) => (
+            <li key={index} className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="outline">{API_ERROR_LABELS[issue.category]}</Badge>
+              <span className="text-muted-foreground">{issue.service}:</span>
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default DataIssues;
@@ -0,0 +1,62 @@
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { QUALITY_PARAMETER_LABELS, type QualityParameter } from '@/lib/data-quality';
+import type { DataQuality } from '@/types/energy';
+
+interface DataQualityReportProps {
+  quality: DataQuality;
+  interpolate: boolean;
+  loading: boolean;
+  onInterpolateChange: (interpolate: boolean) => void;
+}
+
+// Below this share of days present a parameter is flagged
+const COMPLETENESS_WARNING = 0.9;
+
+const MAX_LISTED_DAYS = 4;
+
+const DataQualityReport = ({ quality, interpolate, loading, onInterpolateChange }: DataQualityReportProps) => (
+  <div className="space-y-2">
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm font-medium">Data quality</span>
+      {(Object.keys(QUALITY_PARAMETER_LABELS) as QualityParameter[]).map(parameter => {
+        const { completeness, valid, expected } = quality[parameter];
+        return (
+          <Badge
+            key={parameter}
+            variant={completeness < COMPLETENESS_WARNING ? 'destructive' : 'outline'}
+            title={`${valid} of ${expected} days observed`}
+          >
+            {QUALITY_PARAMETER_LABELS[parameter]} {(completeness * 100).toFixed(0)}%
+          </Badge>
+        );
+      })}
+      <div className="flex items-center gap-2 ml-auto">
+        <Switch
+          id="interpolate-gaps"
+          checked={interpolate}
+          onCheckedChange={onInterpolateChange}
+          disabled={loading}
+        />
+        <Label htmlFor="interpolate-gaps" className="text-sm">Interpolate gaps</Label>
+      </div>
+    </div>
+    {(Object.keys(QUALITY_PARAMETER_LABELS) as QualityParameter[])
+      .filter(parameter => quality[parameter].missing.length > 0)
+      .map(parameter => {
+        const { missing, imputed, lastValid } = quality[parameter];
+        const listed = missing.slice(-MAX_LISTED_DAYS).join(', ');
+        return (
+          <p key={parameter} className="text-xs text-muted-foreground">
+            {QUALITY_PARAMETER_LABELS[parameter]}: {missing.length} missing day{missing.length === 1 ? '' : 's'}
+            {' '}({missing.length > MAX_LISTED_DAYS ? `latest ${listed}` : listed})
+            {imputed > 0 && `, ${imputed} interpolated`}
+            {lastValid && ` · current value from ${lastValid}`}
+          </p>
+        );
+      })}
+  </div>
+);
+
+export default DataQualityReport;
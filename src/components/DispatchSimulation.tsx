@@ -0,0 +1,116 @@
+import { Card } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Activity } from 'lucide-react';
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, Line, ComposedChart } from 'recharts';
+import PVArraySettings from '@/components/PVArraySettings';
+import WindTurbineSettings from '@/components/WindTurbineSettings';
+import BatterySettings from '@/components/BatterySettings';
+import type { DispatchResult, SystemConfig } from '@/lib/simulation';
+
+interface DispatchSimulationProps {
+  result: DispatchResult;
+  system: SystemConfig;
+  averageWindSpeed: number;
+  onSystemChange: (system: SystemConfig) => void;
+}
+
+const CHART_HOURS = 72;
+
+const DispatchSimulation = ({ result, system, averageWindSpeed, onSystemChange }: DispatchSimulationProps) => {
+  const { summary } = result;
+
+  const chartData = result.steps.slice(-CHART_HOURS).map(step => ({
+    time: step.time.slice(5).replace('T', ' '),
+    generation: step.solar + step.wind,
+    load: step.load,
+    battery: step.batteryCharge
+  }));
+
+  const metrics = [
+    { label: 'Renewable Generation', value: summary.solar + summary.wind, className: 'text-energy-solar' },
+    { label: 'Load', value: summary.load, className: '' },
+    { label: 'Battery Charge', value: summary.charge, className: 'text-energy-battery' },
+    { label: 'Battery Discharge', value: summary.discharge, className: 'text-energy-battery' },
+    { label: 'Battery Losses', value: summary.batteryLosses, className: 'text-muted-foreground' },
+    { label: 'Curtailment', value: summary.curtailment, className: 'text-energy-wind' },
+    { label: 'Grid Import', value: summary.gridImport, className: 'text-energy-grid' },
+    { label: 'Load Shed', value: summary.shedLoad, className: 'text-energy-solar' },
+    { label: 'Unmet Load', value: summary.unmetLoad, className: 'text-destructive' }
+  ];
+
+  return (
+    <Card className="glass-card p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Activity className="w-5 h-5 text-primary" />
+          <h3 className="text-xl font-semibold">Hourly Dispatch Simulation</h3>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {summary.hours} hours simulated ({(summary.hours / 24).toFixed(0)} days)
+        </p>
+      </div>
+
+      <PVArraySettings
+        config={system.pv}
+        onChange={(pv) => onSystemChange({ ...system, pv })}
+      />
+
+      <WindTurbineSettings
+        config={system.wind}
+        averageWindSpeed={averageWindSpeed}
+        onChange={(wind) => onSystemChange({ ...system, wind })}
+      />
+
+      <BatterySettings
+        spec={system.battery}
+        equivalentCycles={summary.equivalentCycles}
+        stateOfHealth={summary.stateOfHealth}
+        onChange={(battery) => onSystemChange({ ...system, battery })}
+      />
+
+      <div className="flex items-center gap-3">
+        <Switch
+          checked={system.gridConnected}
+          onCheckedChange={(checked) => onSystemChange({ ...system, gridConnected: checked })}
+        />
+        <label className="text-sm font-medium">Grid Connected</label>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+        {metrics.map(metric => (
+          <div key={metric.label} className="p-3 rounded-lg bg-muted/50">
+            <p className={`text-xl font-bold ${metric.className}`}>{metric.value.toFixed(1)} kWh</p>
+            <p className="text-sm text-muted-foreground">{metric.label}</p>
+          </div>
+        ))}
+        <div className="p-3 rounded-lg bg-muted/50">
+          <p className="text-xl font-bold text-energy-battery">{(summary.renewableFraction * 100).toFixed(0)}%</p>
+          <p className="text-sm text-muted-foreground">Renewable Share</p>
+        </div>
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis dataKey="time" stroke="hsl(var(--muted-foreground))" minTickGap={40} />
+            <YAxis stroke="hsl(var(--muted-foreground))" />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px'
+              }}
+              formatter={(value: number) => `${value.toFixed(2)} kWh`}
+            />
+            <Area type="monotone" dataKey="battery" name="Battery" stroke="hsl(var(--battery))" fill="hsl(var(--battery) / 0.2)" />
+            <Line type="monotone" dataKey="generation" name="Generation" stroke="hsl(var(--solar))" dot={false} strokeWidth={2} />
+            <Line type="monotone" dataKey="load" name="Load" stroke="hsl(var(--grid))" dot={false} strokeWidth={2} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </Card>
+  );
+};
+
+export default DispatchSimulation;
@@ -1,4 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,53 +10,53 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { MapPin, Sun, Wind, Battery, Zap, TrendingUp, AlertTriangle, CheckCircle, XCircle, 
          Calculator, Leaf, Clock, Bell, BarChart3, Download, Settings, DollarSign, 
-         CloudRain, Thermometer, Eye } from 'lucide-react';
+         CloudRain, Thermometer, Eye, Layers } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
          AreaChart, Area, PieChart, Pie, Cell, BarChart, Bar } from 'recharts';
 import EnhancedFeatures from '@/components/EnhancedFeatures';
-
-interface LocationData {
-  latitude: number;
-  longitude: number;
-  city: string;
-  region: string;
-  country: string;
-}
-
-interface EnergyData {
-  solar: {
-    current: number;
-    average: number;
-    peak: number;
-    data: Array<{ time: string; value: number }>;
-  };
-  wind: {
-    current: number;
-    average: number;
-    peak: number;
-    data: Array<{ time: string; value: number }>;
-  };
-}
-
-interface BatteryState {
-  capacity: number;
-  currentCharge: number;
-  percentage: number;
-  runtime: number;
-}
-
-interface EnergyConsumption {
-  dailyDemand: number;
-  peakHours: string;
-  appliances: Array<{ name: string; power: number; hours: number }>;
-}
-
-interface CostAnalysis {
-  gridCost: number;
-  renewableSavings: number;
-  paybackPeriod: number;
-  annualSavings: number;
-}
+import DispatchSimulation from '@/components/DispatchSimulation';
+import RuntimeScenarios from '@/components/RuntimeScenarios';
+import LoadSheddingReport from '@/components/LoadSheddingReport';
+import SitePicker from '@/components/SitePicker';
+import DataFreshness from '@/components/DataFreshness';
+import ResourceSourcePicker from '@/components/ResourceSourcePicker';
+import DataImportDialog from '@/components/DataImportDialog';
+import DataIssues from '@/components/DataIssues';
+import DataQualityReport from '@/components/DataQualityReport';
+import QualityDot from '@/components/QualityDot';
+import ClimatologyProfile from '@/components/ClimatologyProfile';
+import ResourceTimeline from '@/components/ResourceTimeline';
+import FeasibilityBreakdown from '@/components/FeasibilityBreakdown';
+import {
+  simulateDispatch, averageDailyProfile, DEFAULT_SYSTEM_CONFIG, type SystemConfig
+} from '@/lib/simulation';
+import { buildTierProfiles, currentLoadContext, derivePeakHours, totalProfile } from '@/lib/load-profile';
+import { runtimeScenarios } from '@/lib/runtime';
+import type { DataSource } from '@/lib/nasa-power';
+import { API_ERROR_LABELS, toDataIssue, type DataIssue } from '@/lib/api-client';
+import { GEOCODER_SERVICE, IP_LOCATION_SERVICE, ipLocation, reverseGeocode, type PlaceName } from '@/lib/geolocation';
+import { analysisResource, nominalTimeZone, type HourlySeries } from '@/lib/hourly-series';
+import {
+  DEFAULT_PROVIDER, PROVIDER_LABELS, resourceProvider, type ProviderId, type Provenance
+} from '@/lib/resource-provider';
+import type { UploadedWeather } from '@/lib/weather-file';
+import { meanDailyEnergy } from '@/lib/meter-file';
+import {
+  DEFAULT_ANALYSIS_MODE, analysisEnergyData, type AnalysisMode, type MonthlyClimatology
+} from '@/lib/climatology';
+import type { SizingCandidate } from '@/lib/sizing';
+import { DEFAULT_FINANCE_SETTINGS, type FinanceSettings } from '@/lib/finance';
+import { DEFAULT_INCENTIVES, type IncentiveSettings } from '@/lib/incentives';
+import {
+  DEFAULT_RECOMMENDATION_RULES, evaluateRecommendations, recommendationInputs, type Recommendation
+} from '@/lib/recommendations';
+import { DAYS_PER_MONTH, hourlyPrices } from '@/lib/tariff';
+import { assessFeasibility, type FeasibilityAssessment, type FeasibilityStatus } from '@/lib/feasibility';
+import {
+  DEFAULT_TARIFF, createSiteId, deleteSite, getActiveSiteId, loadSites, saveSite, setActiveSiteId, siteProvenance,
+  type Site
+} from '@/lib/sites';
+import type { LocationData, EnergyData, BatteryState, EnergyConsumption, MeasuredLoad, TariffSettings } from '@/types/energy';
 
 interface WeatherData {
   temperature: number;
@@ -64,30 +65,16 @@ interface WeatherData {
   condition: string;
 }
 
-interface EnhancedRecommendation {
-  type: 'solar' | 'wind' | 'battery' | 'grid' | 'economic' | 'environmental';
-  priority: 'critical' | 'high' | 'medium' | 'low';
-  message: string;
-  action: string;
-  timeframe: string;
-  impact: number;
-  confidence: number;
-}
-
-interface Recommendation {
-  type: 'solar' | 'wind' | 'battery' | 'grid';
-  priority: 'high' | 'medium' | 'low';
-  message: string;
-  action: string;
-}
-
-interface FeasibilityResult {
-  status: 'optimal' | 'moderate' | 'not-recommended';
-  score: number;
-  reason: string;
+interface FeasibilityResult extends FeasibilityAssessment {
   icon: typeof CheckCircle | typeof AlertTriangle | typeof XCircle;
 }
 
+const FEASIBILITY_ICONS: Record<FeasibilityStatus, FeasibilityResult['icon']> = {
+  optimal: CheckCircle,
+  moderate: AlertTriangle,
+  'not-recommended': XCircle
+};
+
 interface CarbonFootprint {
   currentEmissions: number;
   renewableReduction: number;
@@ -95,38 +82,90 @@ interface CarbonFootprint {
   treesEquivalent: number;
 }
 
+interface FetchOptions {
+  force?: boolean;
+  timeZone?: string;
+  providerId?: ProviderId; // overrides for a provider or file chosen in the same event
+  weatherFile?: UploadedWeather | null;
+  interpolate?: boolean;
+}
+
+const DEFAULT_BATTERY_STATE: BatteryState = {
+  capacity: 100,
+  currentCharge: 75,
+  percentage: 75,
+  runtime: 0
+};
+
+const DEFAULT_ENERGY_CONSUMPTION: EnergyConsumption = {
+  dailyDemand: 25,
+  peakHours: '',
+  appliances: [
+    {
+      name: 'LED Lights',
+      power: 0.5,
+      priority: 'critical',
+      schedule: {
+        weekday: [{ start: 5, end: 7 }, { start: 18, end: 24 }],
+        dutyCycle: 1,
+        seasons: { winter: { weekday: [{ start: 5, end: 7.5 }, { start: 17.5, end: 24 }] } }
+      }
+    },
+    {
+      name: 'Refrigerator',
+      power: 1.2,
+      priority: 'essential',
+      schedule: { weekday: [{ start: 0, end: 24 }], dutyCycle: 0.4, seasons: { summer: { dutyCycle: 0.55 } } }
+    },
+    { name: 'Mobile Charging', power: 0.1, priority: 'critical', schedule: { weekday: [{ start: 19, end: 23 }], dutyCycle: 1 } },
+    {
+      name: 'Water Pump',
+      power: 2.0,
+      priority: 'deferrable',
+      schedule: { weekday: [{ start: 6, end: 8 }], dutyCycle: 1, allowed: [{ start: 6, end: 18 }] }
+    },
+    {
+      name: 'TV',
+      power: 0.8,
+      priority: 'deferrable',
+      schedule: { weekday: [{ start: 17, end: 23 }], weekend: [{ start: 12, end: 14 }, { start: 17, end: 23 }], dutyCycle: 1 }
+    }
+  ]
+};
+
+// Debounce for writing the active site back to storage
+const SAVE_DELAY = 500;
+
 const EnerShiftDashboard = () => {
   const { toast } = useToast();
   const [location, setLocation] = useState<LocationData | null>(null);
   const [energyData, setEnergyData] = useState<EnergyData | null>(null);
-  const [battery, setBattery] = useState<BatteryState>({
-    capacity: 100,
-    currentCharge: 75,
-    percentage: 75,
-    runtime: 0
-  });
-  const [recommendations, setRecommendations] = useState<EnhancedRecommendation[]>([]);
+  const [battery, setBattery] = useState<BatteryState>(DEFAULT_BATTERY_STATE);
+  const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
   const [feasibility, setFeasibility] = useState<FeasibilityResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [manualLocation, setManualLocation] = useState({ lat: '', lon: '' });
   
   // Enhanced state
-  const [energyConsumption, setEnergyConsumption] = useState<EnergyConsumption>({
-    dailyDemand: 25,
-    peakHours: '18:00-22:00',
-    appliances: [
-      { name: 'LED Lights', power: 0.5, hours: 8 },
-      { name: 'Refrigerator', power: 1.2, hours: 24 },
-      { name: 'Mobile Charging', power: 0.1, hours: 4 }
-    ]
-  });
-  
-  const [costAnalysis, setCostAnalysis] = useState<CostAnalysis>({
-    gridCost: 8.5,
-    renewableSavings: 0,
-    paybackPeriod: 0,
-    annualSavings: 0
-  });
+  const [energyConsumption, setEnergyConsumption] = useState<EnergyConsumption>(DEFAULT_ENERGY_CONSUMPTION);
+
+  const [systemConfig, setSystemConfig] = useState<SystemConfig>(DEFAULT_SYSTEM_CONFIG);
+  const [tariff, setTariff] = useState<TariffSettings>(DEFAULT_TARIFF);
+  const [finance, setFinance] = useState<FinanceSettings>(DEFAULT_FINANCE_SETTINGS);
+  const [incentives, setIncentives] = useState<IncentiveSettings>(DEFAULT_INCENTIVES);
+  const [sizing, setSizing] = useState<SizingCandidate | null>(null);
+  const [provider, setProvider] = useState<ProviderId>(DEFAULT_PROVIDER);
+  const [provenance, setProvenance] = useState<Provenance | null>(null);
+  const [upload, setUpload] = useState<UploadedWeather | null>(null);
+  const [energyDataSource, setEnergyDataSource] = useState<DataSource>('network');
+  const [climatology, setClimatology] = useState<MonthlyClimatology | null>(null);
+  const [hourlySeries, setHourlySeries] = useState<HourlySeries | null>(null);
+  const [locationIssues, setLocationIssues] = useState<DataIssue[]>([]);
+  const [resourceIssues, setResourceIssues] = useState<DataIssue[]>([]);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>(DEFAULT_ANALYSIS_MODE);
+  const [interpolateGaps, setInterpolateGaps] = useState(false);
+  const [sites, setSites] = useState<Site[]>([]);
+  const [activeSiteId, setActiveSite] = useState<string | null>(null);
   
   const [carbonFootprint, setCarbonFootprint] = useState<CarbonFootprint>({
     currentEmissions: 0,
@@ -138,23 +177,195 @@ const EnerShiftDashboard = () => {
   const [weatherData, setWeatherData] = useState<WeatherData | null>(null);
   const [activeTab, setActiveTab] = useState('overview');
 
-  // Auto-detect location on mount
+  // Restore the last active site on mount; detect the location only when it has none
   useEffect(() => {
-    detectLocation();
+    loadSites()
+      .then(stored => {
+        const site = stored.find(s => s.id === getActiveSiteId()) ?? stored[0] ?? newSite('Site 1');
+        setSites(stored.length > 0 ? stored : [site]);
+        applySite(site);
+        if (!site.location) detectLocation();
+      })
+      .catch(error => {
+        console.error('Failed to load saved sites:', error);
+        detectLocation();
+      });
   }, []);
 
+  // Save the active site whenever its inputs or data change
+  const activeSiteName = sites.find(site => site.id === activeSiteId)?.name;
+  useEffect(() => {
+    if (!activeSiteId) return;
+    const timer = setTimeout(() => {
+      const site: Site = {
+        id: activeSiteId,
+        name: activeSiteName ?? 'Untitled Site',
+        location,
+        battery,
+        energyConsumption,
+        tariff,
+        finance,
+        incentives,
+        system: systemConfig,
+        sizing,
+        energyData,
+        provider,
+        provenance,
+        upload,
+        climatology,
+        hourly: hourlySeries,
+        analysisMode,
+        interpolateGaps,
+        updatedAt: new Date().toISOString()
+      };
+      saveSite(site).catch(error => console.error('Failed to save site:', error));
+      setSites(prev => prev.map(s => (s.id === site.id ? site : s)));
+    }, SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [activeSiteId, activeSiteName, location, battery, energyConsumption, tariff, finance, incentives, systemConfig,
+    sizing, energyData, provider, provenance, upload, climatology, hourlySeries, analysisMode, interpolateGaps]);
+
+  const newSite = (name: string): Site => ({
+    id: createSiteId(),
+    name,
+    location: null,
+    battery: DEFAULT_BATTERY_STATE,
+    energyConsumption: DEFAULT_ENERGY_CONSUMPTION,
+    tariff: DEFAULT_TARIFF,
+    finance: DEFAULT_FINANCE_SETTINGS,
+    incentives: DEFAULT_INCENTIVES,
+    system: DEFAULT_SYSTEM_CONFIG,
+    sizing: null,
+    energyData: null,
+    provider: DEFAULT_PROVIDER,
+    provenance: null,
+    upload: null,
+    climatology: null,
+    hourly: null,
+    analysisMode: DEFAULT_ANALYSIS_MODE,
+    updatedAt: new Date().toISOString()
+  });
+
+  // Older saves may predate newer settings, so defaults fill any gaps
+  const applySite = (site: Site) => {
+    setActiveSite(site.id);
+    setActiveSiteId(site.id);
+    setLocation(site.location);
+    setBattery({ ...DEFAULT_BATTERY_STATE, ...site.battery });
+    setEnergyConsumption({ ...DEFAULT_ENERGY_CONSUMPTION, ...site.energyConsumption });
+    setTariff({ ...DEFAULT_TARIFF, ...site.tariff });
+    setFinance({ ...DEFAULT_FINANCE_SETTINGS, ...site.finance });
+    setIncentives({ ...DEFAULT_INCENTIVES, ...site.incentives });
+    setSystemConfig({ ...DEFAULT_SYSTEM_CONFIG, ...site.system });
+    setSizing(site.sizing ?? null);
+    setEnergyData(site.energyData);
+    setProvider(site.provider ?? DEFAULT_PROVIDER);
+    setProvenance(siteProvenance(site));
+    setUpload(site.upload ?? null);
+    setEnergyDataSource('cache');
+    setClimatology(site.climatology ?? null);
+    setHourlySeries(site.hourly ?? null);
+    setAnalysisMode(site.analysisMode ?? DEFAULT_ANALYSIS_MODE);
+    setInterpolateGaps(site.interpolateGaps ?? false);
+    setLocationIssues([]);
+    setResourceIssues([]);
+    setRecommendations([]);
+    setFeasibility(null);
+  };
+
+  const selectSite = (id: string) => {
+    const site = sites.find(s => s.id === id);
+    if (site) applySite(site);
+  };
+
+  const createSite = () => {
+    const site = newSite(`Site ${sites.length + 1}`);
+    setSites(prev => [...prev, site]);
+    applySite(site);
+  };
+
+  const renameSite = (name: string) => {
+    setSites(prev => prev.map(site => (site.id === activeSiteId ? { ...site, name } : site)));
+  };
+
+  const removeSite = async () => {
+    if (!activeSiteId) return;
+    try {
+      await deleteSite(activeSiteId);
+    } catch (error) {
+      console.error('Failed to delete site:', error);
+    }
+    const remaining = sites.filter(site => site.id !== activeSiteId);
+    setSites(remaining);
+    if (remaining.length > 0) applySite(remaining[0]);
+  };
+
+  // Resource data the models run on: the fetched window or a typical year
+  const analysisData = useMemo(
+    () => analysisEnergyData(analysisMode, energyData, climatology),
+    [analysisMode, energyData, climatology]
+  );
+
+  // Hourly resource for the analysis window
+  const resource = useMemo(
+    () => (analysisData && location
+      ? analysisResource(
+        analysisData, hourlySeries, location.latitude, location.longitude, analysisData !== energyData
+      )
+      : []),
+    [analysisData, energyData, hourlySeries, location]
+  );
+
+  // Hour-by-hour dispatch over the analysis window
+  const dispatch = useMemo(() => simulateDispatch({
+    latitude: location?.latitude ?? 0,
+    resource,
+    appliances: energyConsumption.appliances,
+    measuredLoad: energyConsumption.measuredLoad,
+    battery: { capacity: battery.capacity, currentCharge: battery.currentCharge },
+    system: systemConfig
+  }), [resource, location, energyConsumption.appliances, energyConsumption.measuredLoad, battery.capacity,
+    battery.currentCharge, systemConfig]);
+
+  // Average renewable output for each hour of the day over the window
+  const generationProfile = useMemo(
+    () => averageDailyProfile(dispatch.steps, step => step.solar + step.wind),
+    [dispatch.steps]
+  );
+
+  // Backup runtime from today's appliance load profile, not from generation
+  const runtime = useMemo(() => {
+    const tiers = buildTierProfiles(energyConsumption.appliances, currentLoadContext(), energyConsumption.measuredLoad);
+    return runtimeScenarios({
+      spec: systemConfig.battery,
+      capacity: battery.capacity,
+      stored: battery.currentCharge,
+      load: totalProfile(tiers),
+      criticalLoad: tiers.critical,
+      generation: generationProfile,
+      currentHour: new Date().getHours()
+    });
+  }, [systemConfig.battery, battery.capacity, battery.currentCharge, energyConsumption.appliances,
+    energyConsumption.measuredLoad, generationProfile]);
+
+  // Peak hours follow today's scheduled load rather than being typed in
+  useEffect(() => {
+    const tiers = buildTierProfiles(energyConsumption.appliances, currentLoadContext(), energyConsumption.measuredLoad);
+    const peakHours = derivePeakHours(totalProfile(tiers));
+    setEnergyConsumption(prev => (prev.peakHours === peakHours ? prev : { ...prev, peakHours }));
+  }, [energyConsumption.appliances, energyConsumption.measuredLoad]);
+
   // Update battery percentage and runtime when values change
   useEffect(() => {
     const percentage = (battery.currentCharge / battery.capacity) * 100;
-    const averageDemand = energyData ? (energyData.solar.average + energyData.wind.average) / 2 : 5;
-    const runtime = battery.currentCharge / (averageDemand || 5);
+    const worstCase = runtime.find(scenario => scenario.id === 'night');
     
     setBattery(prev => ({
       ...prev,
       percentage,
-      runtime
+      runtime: worstCase?.runtime ?? 0
     }));
-  }, [battery.capacity, battery.currentCharge, energyData]);
+  }, [battery.capacity, battery.currentCharge, runtime]);
 
   // Generate recommendations and feasibility when data changes
   useEffect(() => {
@@ -162,7 +373,7 @@ const EnerShiftDashboard = () => {
       generateRecommendations();
       calculateFeasibility();
     }
-  }, [energyData, battery, location]);
+  }, [energyData, analysisData, battery, location, dispatch, tariff]);
 
   const detectLocation = async () => {
     setLoading(true);
@@ -195,306 +406,205 @@ const EnerShiftDashboard = () => {
 
   const fetchIPLocation = async () => {
     try {
-      const response = await fetch('https://ipapi.co/json/');
-      const data = await response.json();
-      await fetchLocationData(data.latitude, data.longitude);
+      const { latitude, longitude } = await ipLocation();
+      await fetchLocationData(latitude, longitude);
     } catch (error) {
-      console.error('IP location failed:', error);
+      setLocationIssues([toDataIssue(error, IP_LOCATION_SERVICE)]);
       setLoading(false);
     }
   };
 
   const fetchLocationData = async (lat: number, lon: number) => {
+    // Place names are nice to have; offline users still get cached resource data
+    let place: PlaceName = { city: 'Unknown', region: 'Unknown', country: 'Unknown' };
     try {
-      // Fetch reverse geocoding
-      const geoResponse = await fetch(
-        `https://api.bigdatacloud.net/data/reverse-geocode-client?latitude=${lat}&longitude=${lon}&localityLanguage=en`
-      );
-      const geoData = await geoResponse.json();
-      
-      setLocation({
-        latitude: lat,
-        longitude: lon,
-        city: geoData.city || 'Unknown',
-        region: geoData.principalSubdivision || 'Unknown',
-        country: geoData.countryName || 'Unknown'
-      });
+      place = await reverseGeocode(lat, lon);
+      setLocationIssues([]);
+    } catch (error) {
+      setLocationIssues([toDataIssue(error, GEOCODER_SERVICE)]);
+    }
+
+    const timeZone = place.timeZone ?? nominalTimeZone(lon);
 
+    setLocation({
+      latitude: lat,
+      longitude: lon,
+      city: place.city,
+      region: place.region,
+      country: place.country,
+      timeZone
+    });
+
+    try {
       // Fetch NASA POWER data
-      await fetchEnergyData(lat, lon);
-    } catch (error) {
-      console.error('Failed to fetch location data:', error);
-      toast({
-        title: "Failed to fetch location data",
-        description: "Please try again or enter coordinates manually",
-        variant: "destructive"
-      });
+      await fetchEnergyData(lat, lon, { timeZone });
     } finally {
       setLoading(false);
     }
   };
 
-  const fetchEnergyData = async (lat: number, lon: number) => {
+  const fetchEnergyData = async (
+    lat: number,
+    lon: number,
+    {
+      force = false,
+      timeZone = nominalTimeZone(lon),
+      providerId = provider,
+      weatherFile = upload,
+      interpolate = interpolateGaps
+    }: FetchOptions = {}
+  ) => {
     try {
       const today = new Date();
       const startDate = new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000); // 30 days ago
-      
-      const startDateStr = startDate.toISOString().split('T')[0].replace(/-/g, '');
-      const endDateStr = today.toISOString().split('T')[0].replace(/-/g, '');
-
-      // NASA POWER API for solar and wind data
-      const solarResponse = await fetch(
-        `https://power.larc.nasa.gov/api/temporal/daily/point?parameters=ALLSKY_SFC_SW_DWN&community=RE&longitude=${lon}&latitude=${lat}&start=${startDateStr}&end=${endDateStr}&format=JSON`
-      );
-      
-      const windResponse = await fetch(
-        `https://power.larc.nasa.gov/api/temporal/daily/point?parameters=WS10M&community=RE&longitude=${lon}&latitude=${lat}&start=${startDateStr}&end=${endDateStr}&format=JSON`
-      );
-
-      const solarData = await solarResponse.json();
-      const windData = await windResponse.json();
-
-      // Process solar data
-      const solarValues = Object.values(solarData.properties.parameter.ALLSKY_SFC_SW_DWN || {}) as number[];
-      const solarChartData = Object.entries(solarData.properties.parameter.ALLSKY_SFC_SW_DWN || {})
-        .slice(-7)
-        .map(([date, value]) => ({
-          time: new Date(date.replace(/(\d{4})(\d{2})(\d{2})/, '$1-$2-$3')).toLocaleDateString(),
-          value: Number(value)
-        }));
-
-      // Process wind data
-      const windValues = Object.values(windData.properties.parameter.WS10M || {}) as number[];
-      const windChartData = Object.entries(windData.properties.parameter.WS10M || {})
-        .slice(-7)
-        .map(([date, value]) => ({
-          time: new Date(date.replace(/(\d{4})(\d{2})(\d{2})/, '$1-$2-$3')).toLocaleDateString(),
-          value: Number(value)
-        }));
-
-      setEnergyData({
-        solar: {
-          current: solarValues[solarValues.length - 1] || 0,
-          average: solarValues.reduce((a, b) => a + b, 0) / solarValues.length || 0,
-          peak: Math.max(...solarValues) || 0,
-          data: solarChartData
-        },
-        wind: {
-          current: windValues[windValues.length - 1] || 0,
-          average: windValues.reduce((a, b) => a + b, 0) / windValues.length || 0,
-          peak: Math.max(...windValues) || 0,
-          data: windChartData
-        }
-      });
 
-      toast({
-        title: "Energy Data Updated",
-        description: "Real-time data from NASA POWER API",
+      const result = await resourceProvider(providerId, weatherFile).fetch({
+        latitude: lat,
+        longitude: lon,
+        timeZone,
+        start: startDate.toISOString().split('T')[0],
+        end: today.toISOString().split('T')[0],
+        force,
+        interpolate
       });
 
+      setEnergyData(result.energyData);
+      setHourlySeries(result.hourly);
+      setClimatology(result.climatology);
+      setProvenance(result.provenance);
+      setEnergyDataSource(result.source ?? 'network');
+      setResourceIssues(result.issues ?? []);
+
+      if (result.stale) {
+        toast({
+          title: "Offline",
+          description: `Using cached data from ${new Date(result.provenance.fetchedAt).toLocaleString()}`,
+          variant: "destructive"
+        });
+      } else if (result.source !== 'cache') {
+        toast({
+          title: "Energy Data Updated",
+          description: `Resource data from ${PROVIDER_LABELS[providerId]}`,
+        });
+      }
+
     } catch (error) {
-      console.error('Failed to fetch energy data:', error);
+      const issue = toDataIssue(error, PROVIDER_LABELS[providerId]);
       toast({
-        title: "Failed to fetch energy data",
-        description: "Using fallback data",
+        title: `Failed to fetch energy data: ${API_ERROR_LABELS[issue.category].toLowerCase()}`,
+        description: providerId === 'nasa-power' && issue.category !== 'fill-value'
+          ? `${issue.message}, and there is no cached data for this location`
+          : issue.message,
         variant: "destructive"
       });
-      
-      // Fallback data for demo
-      setEnergyData({
-        solar: {
-          current: 4.2,
-          average: 5.1,
-          peak: 8.3,
-          data: [
-            { time: 'Day 1', value: 4.2 },
-            { time: 'Day 2', value: 5.8 },
-            { time: 'Day 3', value: 6.1 },
-            { time: 'Day 4', value: 3.9 },
-            { time: 'Day 5', value: 7.2 },
-            { time: 'Day 6', value: 8.1 },
-            { time: 'Day 7', value: 5.4 }
-          ]
-        },
-        wind: {
-          current: 3.8,
-          average: 4.2,
-          peak: 7.9,
-          data: [
-            { time: 'Day 1', value: 3.8 },
-            { time: 'Day 2', value: 4.5 },
-            { time: 'Day 3', value: 2.9 },
-            { time: 'Day 4', value: 5.2 },
-            { time: 'Day 5', value: 6.8 },
-            { time: 'Day 6', value: 4.1 },
-            { time: 'Day 7', value: 3.3 }
-          ]
-        }
-      });
+      setResourceIssues([issue]);
+      setEnergyData(null);
+      setProvenance(null);
+      setClimatology(null);
+      setHourlySeries(null);
     }
   };
 
-  const generateRecommendations = () => {
-    if (!energyData) return;
-
-    const recs: EnhancedRecommendation[] = [];
-    const { solar, wind } = energyData;
-    const currentHour = new Date().getHours();
-    const isDaytime = currentHour >= 6 && currentHour <= 18;
-
-    // Enhanced Solar recommendations with AI logic
-    if (solar.current > 5 && battery.percentage < 50) {
-      recs.push({
-        type: 'solar',
-        priority: 'critical',
-        message: 'Excellent solar conditions detected',
-        action: 'Maximize solar charging immediately',
-        timeframe: isDaytime ? 'Next 2-4 hours' : 'Tomorrow 10AM-2PM',
-        impact: 85,
-        confidence: 92
-      });
-    }
-
-    // Wind optimization recommendations
-    if (wind.current > 5 && battery.percentage < 70) {
-      recs.push({
-        type: 'wind',
-        priority: 'high',
-        message: 'Strong wind speeds available',
-        action: 'Activate wind turbine charging',
-        timeframe: 'Next 6 hours',
-        impact: 70,
-        confidence: 88
-      });
-    }
-
-    // Economic optimization
-    if (solar.average > 4 && wind.average > 3) {
-      const savings = (solar.average + wind.average) * costAnalysis.gridCost * 0.8;
-      recs.push({
-        type: 'economic',
-        priority: 'medium',
-        message: `Potential daily savings: ₹${savings.toFixed(0)}`,
-        action: 'Optimize renewable mix for maximum ROI',
-        timeframe: 'Daily optimization',
-        impact: 60,
-        confidence: 85
-      });
+  const refreshEnergyData = async () => {
+    if (!location) return;
+    setLoading(true);
+    try {
+      await fetchEnergyData(location.latitude, location.longitude, { force: true, timeZone: location.timeZone });
+    } finally {
+      setLoading(false);
     }
+  };
 
-    // Environmental recommendations
-    const carbonReduction = (energyConsumption.dailyDemand * 0.82) / 1000; // kg CO2
-    if (carbonReduction > 0.5) {
-      recs.push({
-        type: 'environmental',
-        priority: 'medium',
-        message: `Reduce ${carbonReduction.toFixed(1)}kg CO2 daily`,
-        action: 'Switch to 100% renewable energy',
-        timeframe: 'Continuous',
-        impact: 90,
-        confidence: 95
-      });
+  const changeProvider = async (providerId: ProviderId) => {
+    setProvider(providerId);
+    if (!location || (providerId === 'upload' && !upload)) return;
+    setLoading(true);
+    try {
+      await fetchEnergyData(location.latitude, location.longitude, { timeZone: location.timeZone, providerId });
+    } finally {
+      setLoading(false);
     }
+  };
 
-    // Critical battery warnings
-    if (battery.percentage < 20) {
-      recs.push({
-        type: 'battery',
-        priority: 'critical',
-        message: 'Critical battery level detected',
-        action: 'Switch to grid backup immediately',
-        timeframe: 'Immediate',
-        impact: 100,
-        confidence: 100
-      });
+  const changeInterpolation = async (interpolate: boolean) => {
+    setInterpolateGaps(interpolate);
+    if (!location || (provider === 'upload' && !upload)) return;
+    setLoading(true);
+    try {
+      await fetchEnergyData(location.latitude, location.longitude, { timeZone: location.timeZone, interpolate });
+    } finally {
+      setLoading(false);
     }
+  };
 
-    // Weather-based recommendations
-    if (solar.current < 3 && wind.current < 3) {
-      recs.push({
-        type: 'grid',
-        priority: 'high',
-        message: 'Low renewable availability',
-        action: 'Use grid power during off-peak hours',
-        timeframe: 'Next 12 hours',
-        impact: 45,
-        confidence: 80
+  const importWeather = async (weatherFile: UploadedWeather) => {
+    if (!location) return;
+    setUpload(weatherFile);
+    setProvider('upload');
+    setLoading(true);
+    try {
+      await fetchEnergyData(location.latitude, location.longitude, {
+        timeZone: location.timeZone,
+        providerId: 'upload',
+        weatherFile
       });
+    } finally {
+      setLoading(false);
     }
+  };
 
-    setRecommendations(recs);
+  const importMeter = (measuredLoad: MeasuredLoad) => {
+    setEnergyConsumption(prev => ({ ...prev, measuredLoad, dailyDemand: Number(meanDailyEnergy(measuredLoad).toFixed(1)) }));
+    toast({
+      title: "Meter Data Imported",
+      description: `${measuredLoad.fileName} now ${measuredLoad.mode === 'replace' ? 'replaces' : 'calibrates'} the appliance load`,
+    });
   };
 
-  const calculateFeasibility = () => {
-    if (!energyData) return;
-
-    const { solar, wind } = energyData;
-    let score = 0;
-    let reasons = [];
-
-    // Solar scoring
-    if (solar.average > 6) {
-      score += 40;
-      reasons.push('excellent solar availability');
-    } else if (solar.average > 4) {
-      score += 25;
-      reasons.push('good solar potential');
-    } else {
-      score += 10;
-      reasons.push('limited solar resources');
-    }
+  const clearMeasuredLoad = () => {
+    setEnergyConsumption(prev => ({ ...prev, measuredLoad: null }));
+  };
 
-    // Wind scoring
-    if (wind.average > 5) {
-      score += 30;
-      reasons.push('strong wind resources');
-    } else if (wind.average > 3) {
-      score += 20;
-      reasons.push('moderate wind potential');
-    } else {
-      score += 5;
-      reasons.push('low wind availability');
-    }
+  // Same series and tariff as the dispatch and the bill comparison
+  const generateRecommendations = () => {
+    if (!analysisData) return;
 
-    // Battery efficiency scoring
-    if (battery.runtime > 12) {
-      score += 20;
-      reasons.push('sufficient battery capacity');
-    } else if (battery.runtime > 6) {
-      score += 15;
-      reasons.push('adequate battery runtime');
-    } else {
-      score += 5;
-      reasons.push('limited battery capacity');
-    }
+    const inputs = recommendationInputs({
+      energy: analysisData,
+      battery,
+      summary: dispatch.summary,
+      gridCost: tariff.gridCost
+    });
+    const prices = hourlyPrices(tariff, inputs.dailyDemand * DAYS_PER_MONTH);
+    setRecommendations(evaluateRecommendations(inputs, DEFAULT_RECOMMENDATION_RULES, prices));
+  };
 
-    // Reliability scoring  
-    if (solar.peak > 7 || wind.peak > 6) {
-      score += 10;
-      reasons.push('reliable energy peaks');
-    }
+  const applySizing = (sizing: SizingCandidate) => {
+    setSystemConfig(prev => ({
+      ...prev,
+      pv: { ...prev.pv, panelCount: sizing.panelCount },
+      wind: { ...prev.wind, count: sizing.turbines }
+    }));
+    setBattery(prev => ({ ...prev, capacity: sizing.battery, currentCharge: Math.min(prev.currentCharge, sizing.battery) }));
+    toast({
+      title: "System Sizing Applied",
+      description: `${sizing.pvCapacity.toFixed(1)} kWp PV, ${sizing.turbines} turbine(s) and ${sizing.battery} kWh of storage`,
+    });
+  };
 
-    // Determine status
-    let status: FeasibilityResult['status'];
-    let icon: FeasibilityResult['icon'];
-    
-    if (score >= 80) {
-      status = 'optimal';
-      icon = CheckCircle;
-    } else if (score >= 60) {
-      status = 'moderate';  
-      icon = AlertTriangle;
-    } else {
-      status = 'not-recommended';
-      icon = XCircle;
-    }
+  const calculateFeasibility = () => {
+    if (!analysisData) return;
 
-    setFeasibility({
-      status,
-      score,
-      reason: reasons.join(', '),
-      icon
+    const { solar, wind } = analysisData;
+    const assessment = assessFeasibility({
+      solarAverage: solar.average,
+      solarPeak: solar.peak,
+      windAverage: wind.average,
+      windPeak: wind.peak,
+      runtime: battery.runtime
     });
+
+    setFeasibility({ ...assessment, icon: FEASIBILITY_ICONS[assessment.status] });
   };
 
   const handleManualLocation = async () => {
@@ -542,11 +652,37 @@ const EnerShiftDashboard = () => {
         {/* Location Section */}
         <Card className="glass-card p-6">
           <div className="space-y-4">
-            <div className="flex items-center gap-2">
-              <MapPin className="w-5 h-5 text-primary" />
-              <h2 className="text-xl font-semibold">Location Detection</h2>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <MapPin className="w-5 h-5 text-primary" />
+                <h2 className="text-xl font-semibold">Location Detection</h2>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <SitePicker
+                  sites={sites}
+                  activeSiteId={activeSiteId}
+                  onSelect={selectSite}
+                  onCreate={createSite}
+                  onRename={renameSite}
+                  onDelete={removeSite}
+                />
+                <Button asChild variant="outline" size="sm">
+                  <Link to="/portfolio">
+                    <Layers className="w-4 h-4 mr-1" />
+                    Portfolio
+                  </Link>
+                </Button>
+              </div>
             </div>
             
+            <DataIssues
+              issues={[...locationIssues, ...resourceIssues]}
+              onDismiss={() => {
+                setLocationIssues([]);
+                setResourceIssues([]);
+              }}
+            />
+
             {location ? (
               <div className="space-y-2">
                 <div className="flex items-center gap-2">
@@ -557,6 +693,49 @@ const EnerShiftDashboard = () => {
                 <p className="text-sm text-muted-foreground">
                   Coordinates: {location.latitude.toFixed(4)}, {location.longitude.toFixed(4)}
                 </p>
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <ResourceSourcePicker
+                    provider={provider}
+                    provenance={energyData ? provenance : null}
+                    upload={upload}
+                    loading={loading}
+                    onProviderChange={changeProvider}
+                  />
+                  <DataImportDialog
+                    timeZone={location.timeZone ?? nominalTimeZone(location.longitude)}
+                    disabled={loading}
+                    onImportWeather={importWeather}
+                    onImportMeter={importMeter}
+                  />
+                </div>
+                {energyConsumption.measuredLoad && (
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant="outline">
+                      Load {energyConsumption.measuredLoad.mode === 'replace' ? 'from' : 'calibrated to'}{' '}
+                      {energyConsumption.measuredLoad.fileName}
+                    </Badge>
+                    <span className="text-muted-foreground">
+                      {energyConsumption.measuredLoad.days} days, {(energyConsumption.measuredLoad.completeness * 100).toFixed(0)}% complete
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={clearMeasuredLoad}>Use appliance list</Button>
+                  </div>
+                )}
+                {(provider === 'nasa-power' || upload?.mode === 'calibrate') && (
+                  <DataFreshness
+                    source={energyDataSource}
+                    fetchedAt={energyData ? provenance?.fetchedAt : undefined}
+                    loading={loading}
+                    onRefresh={refreshEnergyData}
+                  />
+                )}
+                {energyData?.quality && (
+                  <DataQualityReport
+                    quality={energyData.quality}
+                    interpolate={interpolateGaps}
+                    loading={loading}
+                    onInterpolateChange={changeInterpolation}
+                  />
+                )}
               </div>
             ) : (
               <div className="space-y-4">
@@ -633,17 +812,23 @@ const EnerShiftDashboard = () => {
                           border: '1px solid hsl(var(--border))',
                           borderRadius: '8px'
                         }} 
+                        formatter={(value, _name, item) => [
+                          Number(value).toFixed(2), item.payload.imputed ? 'Interpolated' : 'Observed'
+                        ]}
                       />
                       <Line 
                         type="monotone" 
                         dataKey="value" 
                         stroke="hsl(var(--solar))" 
                         strokeWidth={2}
-                        dot={{ fill: 'hsl(var(--solar))' }}
+                        dot={<QualityDot color="hsl(var(--solar))" />}
                       />
                     </LineChart>
                   </ResponsiveContainer>
                 </div>
+                {energyData.solar.data.some(point => point.imputed) && (
+                  <p className="text-xs text-muted-foreground">Hollow points are interpolated across missing days</p>
+                )}
               </Card>
 
               {/* Wind Card */}
@@ -686,20 +871,43 @@ const EnerShiftDashboard = () => {
                           border: '1px solid hsl(var(--border))',
                           borderRadius: '8px'
                         }} 
+                        formatter={(value, _name, item) => [
+                          Number(value).toFixed(2), item.payload.imputed ? 'Interpolated' : 'Observed'
+                        ]}
                       />
                       <Line 
                         type="monotone" 
                         dataKey="value" 
                         stroke="hsl(var(--wind))" 
                         strokeWidth={2}
-                        dot={{ fill: 'hsl(var(--wind))' }}
+                        dot={<QualityDot color="hsl(var(--wind))" />}
                       />
                     </LineChart>
                   </ResponsiveContainer>
                 </div>
+                {energyData.wind.data.some(point => point.imputed) && (
+                  <p className="text-xs text-muted-foreground">Hollow points are interpolated across missing days</p>
+                )}
               </Card>
             </div>
 
+            <ClimatologyProfile
+              climatology={climatology}
+              mode={analysisMode}
+              onModeChange={setAnalysisMode}
+            />
+
+            {hourlySeries && hourlySeries.points.length > 0 && (
+              <ResourceTimeline series={hourlySeries} />
+            )}
+
+            <DispatchSimulation
+              result={dispatch}
+              system={systemConfig}
+              averageWindSpeed={analysisData.wind.average}
+              onSystemChange={setSystemConfig}
+            />
+
             {/* Battery Section */}
             <Card className="glass-card p-6 space-y-4">
               <div className="flex items-center gap-2">
@@ -747,44 +955,64 @@ const EnerShiftDashboard = () => {
                     <p className="text-lg font-semibold">
                       {battery.runtime.toFixed(1)} hours
                     </p>
-                    <p className="text-sm text-muted-foreground">Estimated Runtime</p>
+                    <p className="text-sm text-muted-foreground">Estimated Runtime (worst-case night)</p>
                   </div>
                 </div>
               </div>
             </Card>
 
-            {/* AI Recommendations */}
+            <RuntimeScenarios scenarios={runtime} />
+
+            <LoadSheddingReport
+              result={dispatch}
+              appliances={energyConsumption.appliances}
+              measuredLoad={energyConsumption.measuredLoad}
+              config={systemConfig.loadShedding}
+              onConfigChange={(loadShedding) => setSystemConfig(prev => ({ ...prev, loadShedding }))}
+            />
+
+            {/* Rule-based recommendations */}
             {recommendations.length > 0 && (
               <Card className="glass-card p-6 space-y-4">
                 <div className="flex items-center gap-2">
                   <TrendingUp className="w-5 h-5 text-primary" />
-                  <h3 className="text-xl font-semibold">AI Recommendations</h3>
+                  <h3 className="text-xl font-semibold">Recommendations</h3>
                 </div>
 
                 <div className="space-y-3">
-                  {recommendations.map((rec, index) => (
-                    <div key={index} className="p-4 rounded-lg bg-muted/50 border">
+                  {recommendations.map(rec => (
+                    <div key={rec.ruleId} className="p-4 rounded-lg bg-muted/50 border">
                       <div className="flex items-start gap-3">
                         <div className={`p-2 rounded-full ${
                           rec.type === 'solar' ? 'bg-energy-solar/20' :
                           rec.type === 'wind' ? 'bg-energy-wind/20' :
-                          rec.type === 'battery' ? 'bg-energy-battery/20' :
+                          rec.type === 'battery' || rec.type === 'environmental' ? 'bg-energy-battery/20' :
                           'bg-energy-grid/20'
                         }`}>
                           {rec.type === 'solar' && <Sun className="w-4 h-4 text-energy-solar" />}
                           {rec.type === 'wind' && <Wind className="w-4 h-4 text-energy-wind" />}
                           {rec.type === 'battery' && <Battery className="w-4 h-4 text-energy-battery" />}
                           {rec.type === 'grid' && <Zap className="w-4 h-4 text-energy-grid" />}
+                          {rec.type === 'economic' && <DollarSign className="w-4 h-4 text-energy-grid" />}
+                          {rec.type === 'environmental' && <Leaf className="w-4 h-4 text-energy-battery" />}
                         </div>
                         <div className="flex-1">
                           <p className="font-medium">{rec.message}</p>
                           <p className="text-sm text-muted-foreground mt-1">{rec.action}</p>
-                          <Badge 
-                            variant={rec.priority === 'high' ? 'destructive' : rec.priority === 'medium' ? 'default' : 'secondary'}
-                            className="mt-2"
-                          >
-                            {rec.priority} priority
-                          </Badge>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Because {rec.triggers.map(trigger => trigger.explanation).join(' and ')}
+                          </p>
+                          <div className="flex flex-wrap items-center gap-2 mt-2">
+                            <Badge
+                              variant={rec.priority === 'critical' || rec.priority === 'high' ? 'destructive' :
+                                rec.priority === 'medium' ? 'default' : 'secondary'}
+                            >
+                              {rec.priority} priority
+                            </Badge>
+                            <span className="text-xs text-muted-foreground">
+                              {rec.timeframe} · {rec.impact.energy.toFixed(1)} kWh/day · ₹{rec.impact.cost.toFixed(0)}/day
+                            </span>
+                          </div>
                         </div>
                       </div>
                     </div>
@@ -824,6 +1052,8 @@ const EnerShiftDashboard = () => {
                       Assessment based on: {feasibility.reason}
                     </p>
                   </div>
+
+                  <FeasibilityBreakdown assessment={feasibility} />
                 </div>
               </Card>
             )}
@@ -836,6 +1066,21 @@ const EnerShiftDashboard = () => {
               energyData={energyData} 
               battery={battery} 
               location={location} 
+              energyConsumption={energyConsumption}
+              onEnergyConsumptionChange={setEnergyConsumption}
+              dispatchSummary={dispatch.summary}
+              dispatchSteps={dispatch.steps}
+              generationProfile={generationProfile}
+              system={systemConfig}
+              resource={resource}
+              onApplySizing={applySizing}
+              onSizingResult={setSizing}
+              tariff={tariff}
+              onTariffChange={setTariff}
+              finance={finance}
+              onFinanceChange={setFinance}
+              incentives={incentives}
+              onIncentivesChange={setIncentives}
             />
           </TabsContent>
         </Tabs>
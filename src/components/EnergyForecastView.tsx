@@ -0,0 +1,155 @@
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle } from 'lucide-react';
+import {
+  Area, CartesianGrid, ComposedChart, Legend, Line, ReferenceArea, ReferenceLine, ResponsiveContainer, Tooltip, XAxis,
+  YAxis
+} from 'recharts';
+import type { EnergyForecast } from '@/lib/energy-forecast';
+import { FORECAST_PROVIDERS, type ForecastProviderId } from '@/lib/weather-forecast';
+
+interface EnergyForecastViewProps {
+  provider: ForecastProviderId;
+  forecast: EnergyForecast;
+}
+
+// "Tue 14:00" from a local YYYY-MM-DDTHH:00 stamp
+const hourLabel = (time: string) =>
+  `${new Date(`${time.slice(0, 10)}T00:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', timeZone: 'UTC' })} ${time.slice(11)}`;
+
+const tooltipStyle = {
+  backgroundColor: 'hsl(var(--card))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '8px'
+};
+
+const EnergyForecastView = ({ provider, forecast }: EnergyForecastViewProps) => {
+  const { steps, windows, floor } = forecast;
+
+  // Shaded on both charts so floor hours line up with the weather behind them
+  const floorAreas = (yAxisId: string | number = 0) => windows.map(window => (
+    <ReferenceArea
+      key={window.start}
+      yAxisId={yAxisId}
+      x1={window.start}
+      x2={window.end}
+      fill="hsl(var(--destructive))"
+      fillOpacity={0.12}
+      ifOverflow="extendDomain"
+    />
+  ));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h4 className="font-semibold">Next {steps.length} hours</h4>
+        <Badge variant="outline">{FORECAST_PROVIDERS[provider].label}</Badge>
+        <span className="text-sm text-muted-foreground">
+          {forecast.solar.toFixed(1)} kWh solar · {forecast.wind.toFixed(1)} kWh wind · {forecast.demand.toFixed(1)} kWh load
+        </span>
+      </div>
+
+      {windows.length > 0 ? (
+        <div className="p-4 rounded-lg bg-destructive/10 border border-destructive/20 space-y-1">
+          <div className="flex items-center gap-2 font-medium text-destructive">
+            <AlertTriangle className="w-4 h-4" />
+            Battery expected at its {floor.toFixed(0)}% floor or shedding load
+          </div>
+          <ul className="text-sm space-y-1">
+            {windows.map(window => (
+              <li key={window.start}>
+                {hourLabel(window.start)}
+                {window.hours > 1 && ` – ${hourLabel(window.end)}`} ({window.hours} h)
+                {window.shortfall > 0 && `: ${window.shortfall.toFixed(1)} kWh shed, unmet or drawn from the grid`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          The battery stays above its {floor.toFixed(0)}% floor for the whole forecast.
+        </p>
+      )}
+
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={steps} syncId="energy-forecast">
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis dataKey="time" tickFormatter={hourLabel} stroke="hsl(var(--muted-foreground))" interval={5} />
+            <YAxis stroke="hsl(var(--muted-foreground))" unit=" kWh" />
+            <Tooltip
+              contentStyle={tooltipStyle}
+              labelFormatter={(time: string) => hourLabel(time)}
+              formatter={(value: number) => value.toFixed(2)}
+            />
+            <Legend />
+            {floorAreas()}
+            <Area
+              type="monotone"
+              dataKey="solar"
+              name="Solar (kWh)"
+              stackId="generation"
+              stroke="hsl(var(--solar))"
+              fill="hsl(var(--solar))"
+              fillOpacity={0.4}
+            />
+            <Area
+              type="monotone"
+              dataKey="wind"
+              name="Wind (kWh)"
+              stackId="generation"
+              stroke="hsl(var(--wind))"
+              fill="hsl(var(--wind))"
+              fillOpacity={0.4}
+            />
+            <Line type="stepAfter" dataKey="demand" name="Load (kWh)" stroke="hsl(var(--grid))" strokeWidth={2} dot={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={steps} syncId="energy-forecast">
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis dataKey="time" tickFormatter={hourLabel} stroke="hsl(var(--muted-foreground))" interval={5} />
+            <YAxis yAxisId="soc" stroke="hsl(var(--battery))" unit="%" domain={[0, 100]} />
+            <YAxis yAxisId="cloud" orientation="right" stroke="hsl(var(--muted-foreground))" unit="%" domain={[0, 100]} />
+            <Tooltip
+              contentStyle={tooltipStyle}
+              labelFormatter={(time: string) => hourLabel(time)}
+              formatter={(value: number) => `${value.toFixed(0)}%`}
+            />
+            <Legend />
+            {floorAreas('soc')}
+            <ReferenceLine
+              yAxisId="soc"
+              y={floor}
+              stroke="hsl(var(--destructive))"
+              strokeDasharray="4 2"
+              label={{ value: 'Floor', position: 'insideBottomLeft', fill: 'hsl(var(--destructive))', fontSize: 12 }}
+            />
+            <Line
+              yAxisId="soc"
+              type="monotone"
+              dataKey="stateOfCharge"
+              name="State of charge (%)"
+              stroke="hsl(var(--battery))"
+              strokeWidth={2}
+              dot={false}
+            />
+            <Line
+              yAxisId="cloud"
+              type="monotone"
+              dataKey="cloudCover"
+              name="Cloud cover (%)"
+              stroke="hsl(var(--muted-foreground))"
+              strokeDasharray="4 2"
+              dot={false}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default EnergyForecastView;
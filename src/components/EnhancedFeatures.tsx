@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, type Dispatch, type SetStateAction } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,20 +10,38 @@ import { useToast } from '@/hooks/use-toast';
 import { Calculator, Leaf, DollarSign, BarChart3, Download, Bell, Settings, 
          Thermometer, CloudRain, TrendingUp, Zap, Sun, Wind, Battery } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
-         PieChart, Pie, Cell, BarChart, Bar } from 'recharts';
-
-interface EnergyConsumption {
-  dailyDemand: number;
-  peakHours: string;
-  appliances: Array<{ name: string; power: number; hours: number }>;
-}
-
-interface CostAnalysis {
-  gridCost: number;
-  renewableSavings: number;
-  paybackPeriod: number;
-  annualSavings: number;
-}
+         PieChart, Pie, Cell } from 'recharts';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { EnergyConsumption, TariffSettings } from '@/types/energy';
+import {
+  perDay, type DispatchStep, type DispatchSummary, type HourlyResource, type SystemConfig
+} from '@/lib/simulation';
+import { arrayCapacity } from '@/lib/pv';
+import { windFarmCapacity } from '@/lib/wind';
+import { currentLoadContext, dailyEnergy } from '@/lib/load-profile';
+import ApplianceScheduleEditor from '@/components/ApplianceScheduleEditor';
+import LoadProfileChart from '@/components/LoadProfileChart';
+import LoadShiftOptimizer from '@/components/LoadShiftOptimizer';
+import DataIssues from '@/components/DataIssues';
+import EnergyForecastView from '@/components/EnergyForecastView';
+import WeatherSettingsPanel from '@/components/WeatherSettingsPanel';
+import SystemSizingOptimizer from '@/components/SystemSizingOptimizer';
+import LifecycleFinance from '@/components/LifecycleFinance';
+import TariffEditor from '@/components/TariffEditor';
+import IncentiveCalculator from '@/components/IncentiveCalculator';
+import { financialModel, type FinanceInput, type FinanceSettings } from '@/lib/finance';
+import type { IncentiveSettings } from '@/lib/incentives';
+import type { SizingCandidate, SizingResult } from '@/lib/sizing';
+import { applyShiftPlan, optimiseLoadShift, type ShiftObjective } from '@/lib/load-shifting';
+import { DAYS_PER_MONTH, compareBills, hourlyPrices } from '@/lib/tariff';
+import {
+  FORECAST_PROVIDERS, fetchForecast, loadWeatherSettings, saveWeatherSettings, skyCondition, upcomingHours,
+  type WeatherForecast, type WeatherSettings
+} from '@/lib/weather-forecast';
+import { forecastEnergy } from '@/lib/energy-forecast';
+import { nominalTimeZone } from '@/lib/hourly-series';
+import { toDataIssue, type DataIssue } from '@/lib/api-client';
+import { GRID_EMISSION_FACTOR } from '@/lib/emissions';
 
 interface CarbonFootprint {
   currentEmissions: number;
@@ -32,40 +50,52 @@ interface CarbonFootprint {
   treesEquivalent: number;
 }
 
-interface WeatherData {
-  temperature: number;
-  humidity: number;
-  clouds: number;
-  condition: string;
-}
-
 interface EnhancedFeaturesProps {
   energyData: any;
   battery: any;
   location: any;
+  energyConsumption: EnergyConsumption;
+  onEnergyConsumptionChange: Dispatch<SetStateAction<EnergyConsumption>>;
+  dispatchSummary: DispatchSummary;
+  dispatchSteps: DispatchStep[];
+  generationProfile: number[]; // average renewable kWh per hour of day
+  system: SystemConfig;
+  resource: HourlyResource[]; // analysis window the dispatch runs on
+  onApplySizing: (sizing: SizingCandidate) => void;
+  onSizingResult: (sizing: SizingCandidate | null) => void; // recommended system, saved with the site
+  tariff: TariffSettings;
+  onTariffChange: (tariff: TariffSettings) => void;
+  finance: FinanceSettings;
+  onFinanceChange: (finance: FinanceSettings) => void;
+  incentives: IncentiveSettings;
+  onIncentivesChange: (incentives: IncentiveSettings) => void;
 }
 
-const EnhancedFeatures = ({ energyData, battery, location }: EnhancedFeaturesProps) => {
+const DAYS_PER_YEAR = 365;
+
+const EnhancedFeatures = ({
+  energyData, battery, location, energyConsumption, onEnergyConsumptionChange, dispatchSummary, dispatchSteps, generationProfile,
+  system, resource, onApplySizing, onSizingResult, tariff, onTariffChange, finance, onFinanceChange, incentives, onIncentivesChange
+}: EnhancedFeaturesProps) => {
   const { toast } = useToast();
-  
-  const [energyConsumption, setEnergyConsumption] = useState<EnergyConsumption>({
-    dailyDemand: 25,
-    peakHours: '18:00-22:00',
-    appliances: [
-      { name: 'LED Lights', power: 0.5, hours: 8 },
-      { name: 'Refrigerator', power: 1.2, hours: 24 },
-      { name: 'Mobile Charging', power: 0.1, hours: 4 },
-      { name: 'Water Pump', power: 2.0, hours: 2 },
-      { name: 'TV', power: 0.8, hours: 6 }
-    ]
-  });
-  
-  const [costAnalysis, setCostAnalysis] = useState<CostAnalysis>({
-    gridCost: 8.5, // ₹ per kWh
-    renewableSavings: 0,
-    paybackPeriod: 0,
-    annualSavings: 0
-  });
+
+  // PV and wind output in AC kWh/day from the dispatch simulation
+  const dailySolar = perDay(dispatchSummary.solar, dispatchSummary.hours);
+  const dailyWind = perDay(dispatchSummary.wind, dispatchSummary.hours);
+  const loadContext = currentLoadContext();
+  const pvCapacity = arrayCapacity(system.pv);
+  const windCapacity = windFarmCapacity(system.wind);
+  // Load the system serves itself
+  const dailyServed = perDay(
+    dispatchSummary.load - dispatchSummary.gridImport - dispatchSummary.unmetLoad,
+    dispatchSummary.hours
+  );
+  // Grid bill with and without the system, billed on the simulated hours
+  const bills = useMemo(
+    () => compareBills(dispatchSteps, tariff, system.gridConnected),
+    [dispatchSteps, tariff, system.gridConnected]
+  );
+  const dailySavings = bills.annualSavings / DAYS_PER_YEAR;
   
   const [carbonFootprint, setCarbonFootprint] = useState<CarbonFootprint>({
     currentEmissions: 0,
@@ -74,37 +104,92 @@ const EnhancedFeatures = ({ energyData, battery, location }: EnhancedFeaturesPro
     treesEquivalent: 0
   });
   
-  const [weatherData, setWeatherData] = useState<WeatherData | null>(null);
+  const [weatherSettings, setWeatherSettings] = useState<WeatherSettings>(loadWeatherSettings);
+  const [forecast, setForecast] = useState<WeatherForecast | null>(null);
+  const [forecastLoading, setForecastLoading] = useState(false);
+  const [weatherIssue, setWeatherIssue] = useState<DataIssue | null>(null);
+  const [shiftObjective, setShiftObjective] = useState<ShiftObjective>('grid-import');
+  const [sizing, setSizing] = useState<SizingResult | null>(null);
+  const recommendedSizing = sizing?.recommended;
+
+  const shiftPlan = useMemo(() => optimiseLoadShift({
+    appliances: energyConsumption.appliances,
+    generation: generationProfile,
+    prices: hourlyPrices(tariff, energyConsumption.dailyDemand * DAYS_PER_MONTH),
+    context: currentLoadContext(),
+    objective: shiftObjective
+  }), [energyConsumption.appliances, energyConsumption.dailyDemand, generationProfile, tariff, shiftObjective]);
+
+  const financeInput = useMemo((): FinanceInput => ({
+    pvCapacity,
+    windCapacity,
+    batteryCapacity: battery?.capacity ?? 0,
+    annualEnergy: dailyServed * DAYS_PER_YEAR,
+    solarShare: dailySolar + dailyWind > 0 ? dailySolar / (dailySolar + dailyWind) : 0,
+    annualSavings: dailySavings * DAYS_PER_YEAR,
+    annualGeneration: (dailySolar + dailyWind) * DAYS_PER_YEAR,
+    settings: finance
+  }), [pvCapacity, windCapacity, battery?.capacity, dailyServed, dailySolar, dailyWind, dailySavings, finance]);
+  const financial = useMemo(() => financialModel({ ...financeInput, incentives }), [financeInput, incentives]);
+  const withoutIncentives = useMemo(() => financialModel(financeInput), [financeInput]);
 
   // Calculate enhanced metrics when data changes
   useEffect(() => {
     if (energyData && battery) {
       calculateEnhancedMetrics();
-      fetchWeatherData();
     }
-  }, [energyData, battery, energyConsumption]);
+  }, [energyData, battery, dispatchSummary, dailyServed]);
 
-  const calculateEnhancedMetrics = () => {
-    // Cost Analysis
-    const dailyRenewableGeneration = (energyData.solar.average + energyData.wind.average) * 0.8;
-    const dailyGridUsage = Math.max(0, energyConsumption.dailyDemand - dailyRenewableGeneration);
-    const dailySavings = (energyConsumption.dailyDemand - dailyGridUsage) * costAnalysis.gridCost;
-    const annualSavings = dailySavings * 365;
-    
-    // Assuming system cost of ₹80,000 for 5kW setup
-    const systemCost = 80000;
-    const paybackPeriod = annualSavings > 0 ? systemCost / annualSavings : 0;
-
-    setCostAnalysis(prev => ({
-      ...prev,
-      renewableSavings: dailySavings,
-      annualSavings,
-      paybackPeriod
-    }));
+  // Refetch the forecast when the site or the provider settings change
+  const latitude: number | undefined = location?.latitude;
+  const longitude: number | undefined = location?.longitude;
+  useEffect(() => {
+    if (latitude === undefined || longitude === undefined) return;
+    let cancelled = false;
+    setForecastLoading(true);
+    fetchForecast(weatherSettings, latitude, longitude)
+      .then(result => {
+        if (cancelled) return;
+        setForecast(result);
+        setWeatherIssue(null);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setForecast(null);
+        setWeatherIssue(toDataIssue(error, FORECAST_PROVIDERS[weatherSettings.provider].label));
+      })
+      .finally(() => {
+        if (!cancelled) setForecastLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [latitude, longitude, weatherSettings]);
+
+  // Generation, load and state of charge over the forecast hours
+  const forecastHours = useMemo(() => (forecast ? upcomingHours(forecast) : []), [forecast]);
+  const energyForecast = useMemo(() => {
+    if (!location || forecastHours.length === 0) return null;
+    return forecastEnergy({
+      hours: forecastHours,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      timeZone: location.timeZone ?? nominalTimeZone(location.longitude),
+      appliances: energyConsumption.appliances,
+      measuredLoad: energyConsumption.measuredLoad,
+      battery: { capacity: battery.capacity, currentCharge: battery.currentCharge },
+      system
+    });
+  }, [location, forecastHours, energyConsumption.appliances, energyConsumption.measuredLoad, battery.capacity,
+    battery.currentCharge, system]);
+  const currentWeather = forecastHours[0];
 
-    // Carbon Footprint (India grid emission factor: 0.82 kg CO2/kWh)
-    const currentEmissions = energyConsumption.dailyDemand * 0.82;
-    const renewableReduction = dailyRenewableGeneration * 0.82;
+  const calculateEnhancedMetrics = () => {
+    // Grid emissions for the load the dispatch served, and the share of it
+    // the system supplied instead of the grid
+    const dailyLoadServed = perDay(dispatchSummary.load - dispatchSummary.unmetLoad, dispatchSummary.hours);
+    const currentEmissions = dailyLoadServed * GRID_EMISSION_FACTOR;
+    const renewableReduction = dailyServed * GRID_EMISSION_FACTOR;
     const annualCarbonSavings = renewableReduction * 365;
     const treesEquivalent = annualCarbonSavings / 22; // 1 tree absorbs ~22kg CO2/year
 
@@ -116,44 +201,25 @@ const EnhancedFeatures = ({ energyData, battery, location }: EnhancedFeaturesPro
     });
   };
 
-  const fetchWeatherData = async () => {
-    if (!location) return;
-    
-    try {
-      // Using OpenWeatherMap (you'd need an API key in production)
-      const response = await fetch(
-        `https://api.openweathermap.org/data/2.5/weather?lat=${location.latitude}&lon=${location.longitude}&appid=demo&units=metric`
-      );
-      
-      if (response.ok) {
-        const data = await response.json();
-        setWeatherData({
-          temperature: data.main.temp,
-          humidity: data.main.humidity,
-          clouds: data.clouds.all,
-          condition: data.weather[0].main
-        });
-      }
-    } catch (error) {
-      // Fallback weather data for demo
-      setWeatherData({
-        temperature: 28,
-        humidity: 65,
-        clouds: 30,
-        condition: 'Partly Cloudy'
-      });
-    }
+  const updateWeatherSettings = (settings: WeatherSettings) => {
+    saveWeatherSettings(settings);
+    setWeatherSettings(settings);
   };
 
   const addAppliance = () => {
-    setEnergyConsumption(prev => ({
+    onEnergyConsumptionChange(prev => ({
       ...prev,
-      appliances: [...prev.appliances, { name: 'New Appliance', power: 1.0, hours: 4 }]
+      appliances: [...prev.appliances, {
+        name: 'New Appliance',
+        power: 1.0,
+        priority: 'essential',
+        schedule: { weekday: [{ start: 18, end: 22 }], dutyCycle: 1 }
+      }]
     }));
   };
 
   const updateAppliance = (index: number, field: string, value: any) => {
-    setEnergyConsumption(prev => ({
+    onEnergyConsumptionChange(prev => ({
       ...prev,
       appliances: prev.appliances.map((appliance, i) => 
         i === index ? { ...appliance, [field]: value } : appliance
@@ -162,7 +228,7 @@ const EnhancedFeatures = ({ energyData, battery, location }: EnhancedFeaturesPro
   };
 
   const removeAppliance = (index: number) => {
-    setEnergyConsumption(prev => ({
+    onEnergyConsumptionChange(prev => ({
       ...prev,
       appliances: prev.appliances.filter((_, i) => i !== index)
     }));
@@ -174,9 +240,9 @@ const EnhancedFeatures = ({ energyData, battery, location }: EnhancedFeaturesPro
       energyData,
       battery,
       energyConsumption,
-      costAnalysis,
+      financial,
       carbonFootprint,
-      weatherData,
+      weatherForecast: forecast,
       timestamp: new Date().toISOString()
     };
     
@@ -199,18 +265,19 @@ const EnhancedFeatures = ({ energyData, battery, location }: EnhancedFeaturesPro
   // Chart colors
   const COLORS = ['hsl(var(--energy-solar))', 'hsl(var(--energy-wind))', 'hsl(var(--energy-battery))', 'hsl(var(--energy-grid))'];
 
+  // Load served by source: generation used directly (less what was stored or
+  // curtailed, split pro rata between PV and wind), battery discharge and grid
+  const generated = dispatchSummary.solar + dispatchSummary.wind;
+  const directShare = generated > 0
+    ? Math.max(0, generated - dispatchSummary.charge - dispatchSummary.curtailment) / generated
+    : 0;
   const energyMixData = energyData ? [
-    { name: 'Solar', value: energyData.solar.average, color: COLORS[0] },
-    { name: 'Wind', value: energyData.wind.average, color: COLORS[1] },
-    { name: 'Battery', value: battery.currentCharge / 10, color: COLORS[2] },
-    { name: 'Grid', value: Math.max(0, energyConsumption.dailyDemand - energyData.solar.average - energyData.wind.average), color: COLORS[3] }
+    { name: 'Solar', value: dailySolar * directShare, color: COLORS[0] },
+    { name: 'Wind', value: dailyWind * directShare, color: COLORS[1] },
+    { name: 'Battery', value: perDay(dispatchSummary.discharge, dispatchSummary.hours), color: COLORS[2] },
+    { name: 'Grid', value: perDay(dispatchSummary.gridImport, dispatchSummary.hours), color: COLORS[3] }
   ] : [];
 
-  const savingsProjection = Array.from({ length: 12 }, (_, i) => ({
-    month: new Date(0, i).toLocaleString('default', { month: 'short' }),
-    savings: costAnalysis.annualSavings / 12 * (i + 1)
-  }));
-
   return (
     <div className="space-y-6">
       <Tabs defaultValue="consumption" className="w-full">
@@ -238,18 +305,15 @@ const EnhancedFeatures = ({ energyData, battery, location }: EnhancedFeaturesPro
                     <Input
                       type="number"
                       value={energyConsumption.dailyDemand}
-                      onChange={(e) => setEnergyConsumption(prev => ({ ...prev, dailyDemand: Number(e.target.value) }))}
+                      onChange={(e) => onEnergyConsumptionChange(prev => ({ ...prev, dailyDemand: Number(e.target.value) }))}
                       min="1"
                       max="1000"
                     />
                   </div>
                   <div>
                     <label className="text-sm font-medium">Peak Usage Hours</label>
-                    <Input
-                      value={energyConsumption.peakHours}
-                      onChange={(e) => setEnergyConsumption(prev => ({ ...prev, peakHours: e.target.value }))}
-                      placeholder="e.g., 18:00-22:00"
-                    />
+                    <Input value={energyConsumption.peakHours || 'No scheduled load'} readOnly />
+                    <p className="text-xs text-muted-foreground mt-1">Derived from today's appliance schedules</p>
                   </div>
                 </div>
 
@@ -287,46 +351,62 @@ const EnhancedFeatures = ({ energyData, battery, location }: EnhancedFeaturesPro
 
                 <div className="space-y-3">
                   {energyConsumption.appliances.map((appliance, index) => (
-                    <div key={index} className="grid grid-cols-12 gap-3 items-center p-3 rounded-lg bg-muted/50">
-                      <div className="col-span-4">
-                        <Input
-                          value={appliance.name}
-                          onChange={(e) => updateAppliance(index, 'name', e.target.value)}
-                          placeholder="Appliance name"
-                        />
-                      </div>
-                      <div className="col-span-3">
-                        <Input
-                          type="number"
-                          value={appliance.power}
-                          onChange={(e) => updateAppliance(index, 'power', Number(e.target.value))}
-                          placeholder="Power (kW)"
-                          step="0.1"
-                        />
-                      </div>
-                      <div className="col-span-3">
-                        <Input
-                          type="number"
-                          value={appliance.hours}
-                          onChange={(e) => updateAppliance(index, 'hours', Number(e.target.value))}
-                          placeholder="Hours/day"
-                        />
-                      </div>
-                      <div className="col-span-1">
-                        <p className="text-sm font-medium">{(appliance.power * appliance.hours).toFixed(1)} kWh</p>
-                      </div>
-                      <div className="col-span-1">
-                        <Button onClick={() => removeAppliance(index)} variant="destructive" size="sm">×</Button>
+                    <div key={index} className="space-y-3 p-3 rounded-lg bg-muted/50">
+                      <div className="grid grid-cols-12 gap-3 items-center">
+                        <div className="col-span-4">
+                          <Input
+                            value={appliance.name}
+                            onChange={(e) => updateAppliance(index, 'name', e.target.value)}
+                            placeholder="Appliance name"
+                          />
+                        </div>
+                        <div className="col-span-2">
+                          <Input
+                            type="number"
+                            value={appliance.power}
+                            onChange={(e) => updateAppliance(index, 'power', Number(e.target.value))}
+                            placeholder="Power (kW)"
+                            step="0.1"
+                          />
+                        </div>
+                        <div className="col-span-3">
+                          <Select value={appliance.priority} onValueChange={(value) => updateAppliance(index, 'priority', value)}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="critical">Critical</SelectItem>
+                              <SelectItem value="essential">Essential</SelectItem>
+                              <SelectItem value="deferrable">Deferrable</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="col-span-2">
+                          <p className="text-sm font-medium">{dailyEnergy(appliance, loadContext).toFixed(1)} kWh</p>
+                        </div>
+                        <div className="col-span-1">
+                          <Button onClick={() => removeAppliance(index)} variant="destructive" size="sm">×</Button>
+                        </div>
                       </div>
+                      <ApplianceScheduleEditor
+                        schedule={appliance.schedule}
+                        deferrable={appliance.priority === 'deferrable'}
+                        onChange={(schedule) => updateAppliance(index, 'schedule', schedule)}
+                      />
                     </div>
                   ))}
                 </div>
 
                 <div className="text-right">
                   <p className="text-lg font-semibold">
-                    Total Daily Consumption: {energyConsumption.appliances.reduce((sum, app) => sum + (app.power * app.hours), 0).toFixed(1)} kWh
+                    Total Daily Consumption: {energyConsumption.appliances.reduce((sum, app) => sum + dailyEnergy(app, loadContext), 0).toFixed(1)} kWh
                   </p>
                 </div>
+
+                <LoadProfileChart
+                  appliances={energyConsumption.appliances}
+                  measuredLoad={energyConsumption.measuredLoad}
+                />
               </div>
             </div>
           </Card>
@@ -334,6 +414,8 @@ const EnhancedFeatures = ({ energyData, battery, location }: EnhancedFeaturesPro
 
         {/* Cost Analysis Tab */}
         <TabsContent value="cost" className="space-y-6">
+          <TariffEditor tariff={tariff} onChange={onTariffChange} comparison={bills} />
+
           <Card className="glass-card p-6">
             <div className="space-y-4">
               <div className="flex items-center gap-2">
@@ -343,57 +425,66 @@ const EnhancedFeatures = ({ energyData, battery, location }: EnhancedFeaturesPro
 
               <div className="grid md:grid-cols-3 gap-6">
                 <div className="space-y-4">
-                  <div>
-                    <label className="text-sm font-medium">Grid Cost (₹/kWh)</label>
-                    <Input
-                      type="number"
-                      value={costAnalysis.gridCost}
-                      onChange={(e) => setCostAnalysis(prev => ({ ...prev, gridCost: Number(e.target.value) }))}
-                      step="0.1"
-                    />
-                  </div>
-                  
                   <div className="p-4 rounded-lg bg-energy-solar/10 border border-energy-solar/20">
                     <p className="text-sm text-muted-foreground">Daily Savings</p>
-                    <p className="text-2xl font-bold text-energy-solar">₹{costAnalysis.renewableSavings.toFixed(0)}</p>
+                    <p className="text-2xl font-bold text-energy-solar">₹{dailySavings.toFixed(0)}</p>
                   </div>
                 </div>
 
                 <div className="space-y-4">
                   <div className="p-4 rounded-lg bg-energy-wind/10 border border-energy-wind/20">
-                    <p className="text-sm text-muted-foreground">Annual Savings</p>
-                    <p className="text-2xl font-bold text-energy-wind">₹{costAnalysis.annualSavings.toFixed(0)}</p>
+                    <p className="text-sm text-muted-foreground">Annual Savings (Year 1)</p>
+                    <p className="text-2xl font-bold text-energy-wind">₹{(dailySavings * DAYS_PER_YEAR).toFixed(0)}</p>
                   </div>
                   
                   <div className="p-4 rounded-lg bg-energy-battery/10 border border-energy-battery/20">
-                    <p className="text-sm text-muted-foreground">Payback Period</p>
-                    <p className="text-2xl font-bold text-energy-battery">{costAnalysis.paybackPeriod.toFixed(1)} years</p>
+                    <p className="text-sm text-muted-foreground">Discounted Payback</p>
+                    <p className="text-2xl font-bold text-energy-battery">
+                      {financial.discountedPayback === null ? 'Beyond horizon' : `${financial.discountedPayback.toFixed(1)} years`}
+                    </p>
                   </div>
                 </div>
 
                 <div className="space-y-4">
-                  <h4 className="font-semibold">Savings Projection</h4>
-                  <div className="h-48">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <BarChart data={savingsProjection}>
-                        <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-                        <XAxis dataKey="month" stroke="hsl(var(--muted-foreground))" />
-                        <YAxis stroke="hsl(var(--muted-foreground))" />
-                        <Tooltip 
-                          contentStyle={{ 
-                            backgroundColor: 'hsl(var(--card))', 
-                            border: '1px solid hsl(var(--border))',
-                            borderRadius: '8px'
-                          }} 
-                        />
-                        <Bar dataKey="savings" fill="hsl(var(--energy-solar))" />
-                      </BarChart>
-                    </ResponsiveContainer>
+                  <h4 className="font-semibold">Capital Cost</h4>
+                  <div className="space-y-2">
+                    {financial.capex.map(item => (
+                      <div key={item.label} className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">{item.label}</span>
+                        <span>₹{Math.round(item.cost).toLocaleString('en-IN')}</span>
+                      </div>
+                    ))}
+                    <Separator />
+                    <div className="flex justify-between font-semibold">
+                      <span>Total</span>
+                      <span>₹{Math.round(financial.totalCapex).toLocaleString('en-IN')}</span>
+                    </div>
+                    {financial.incentiveValue.subsidy > 0 && (
+                      <>
+                        <div className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">Capital subsidy</span>
+                          <span>−₹{Math.round(financial.incentiveValue.subsidy).toLocaleString('en-IN')}</span>
+                        </div>
+                        <div className="flex justify-between font-semibold">
+                          <span>Net of subsidy</span>
+                          <span>₹{Math.round(financial.netCapex).toLocaleString('en-IN')}</span>
+                        </div>
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
             </div>
           </Card>
+
+          <IncentiveCalculator
+            incentives={incentives}
+            onChange={onIncentivesChange}
+            withIncentives={financial}
+            withoutIncentives={withoutIncentives}
+          />
+
+          <LifecycleFinance result={financial} settings={finance} onSettingsChange={onFinanceChange} />
         </TabsContent>
 
         {/* Carbon Impact Tab */}
@@ -430,7 +521,11 @@ const EnhancedFeatures = ({ energyData, battery, location }: EnhancedFeaturesPro
               <div className="p-6 rounded-lg bg-gradient-to-r from-energy-battery/10 to-energy-solar/10 border border-energy-battery/20">
                 <h4 className="font-semibold mb-2">Environmental Benefits</h4>
                 <ul className="space-y-2 text-sm">
-                  <li>• Reduce carbon footprint by {((carbonFootprint.renewableReduction / carbonFootprint.currentEmissions) * 100).toFixed(0)}% daily</li>
+                  {energyData && (
+                    <li>• Reduce carbon footprint by {(carbonFootprint.currentEmissions > 0
+                      ? (carbonFootprint.renewableReduction / carbonFootprint.currentEmissions) * 100
+                      : 100).toFixed(0)}% daily</li>
+                  )}
                   <li>• Equivalent to planting {carbonFootprint.treesEquivalent.toFixed(0)} trees annually</li>
                   <li>• Save {(carbonFootprint.annualSavings / 1000).toFixed(1)} tonnes of CO₂ emissions per year</li>
                   <li>• Contribute to India's renewable energy goals</li>
@@ -449,53 +544,45 @@ const EnhancedFeatures = ({ energyData, battery, location }: EnhancedFeaturesPro
                 <h3 className="text-xl font-semibold">Weather-Aware Energy Management</h3>
               </div>
 
-              {weatherData && (
+              <WeatherSettingsPanel
+                key={`${weatherSettings.provider}:${weatherSettings.apiKey}`}
+                settings={weatherSettings}
+                loading={forecastLoading}
+                onSave={updateWeatherSettings}
+              />
+
+              <DataIssues issues={weatherIssue ? [weatherIssue] : []} />
+
+              {currentWeather && (
                 <div className="grid md:grid-cols-4 gap-4">
                   <div className="p-4 rounded-lg bg-muted/50 border">
                     <div className="flex items-center gap-2">
                       <Thermometer className="w-4 h-4 text-energy-solar" />
                       <p className="text-sm text-muted-foreground">Temperature</p>
                     </div>
-                    <p className="text-xl font-bold">{weatherData.temperature}°C</p>
+                    <p className="text-xl font-bold">{currentWeather.temperature.toFixed(1)}°C</p>
                   </div>
                   
                   <div className="p-4 rounded-lg bg-muted/50 border">
-                    <p className="text-sm text-muted-foreground">Humidity</p>
-                    <p className="text-xl font-bold">{weatherData.humidity}%</p>
+                    <p className="text-sm text-muted-foreground">Wind Speed</p>
+                    <p className="text-xl font-bold">{currentWeather.windSpeed.toFixed(1)} m/s</p>
                   </div>
                   
                   <div className="p-4 rounded-lg bg-muted/50 border">
                     <p className="text-sm text-muted-foreground">Cloud Cover</p>
-                    <p className="text-xl font-bold">{weatherData.clouds}%</p>
+                    <p className="text-xl font-bold">{currentWeather.cloudCover.toFixed(0)}%</p>
                   </div>
                   
                   <div className="p-4 rounded-lg bg-muted/50 border">
                     <p className="text-sm text-muted-foreground">Condition</p>
-                    <p className="text-xl font-bold">{weatherData.condition}</p>
+                    <p className="text-xl font-bold">{skyCondition(currentWeather.cloudCover)}</p>
                   </div>
                 </div>
               )}
 
-              <div className="space-y-4">
-                <h4 className="font-semibold">Weather Impact Analysis</h4>
-                <div className="grid md:grid-cols-2 gap-4">
-                  <div className="p-4 rounded-lg bg-energy-solar/10 border border-energy-solar/20">
-                    <h5 className="font-medium text-energy-solar mb-2">Solar Efficiency</h5>
-                    <p className="text-sm">
-                      {weatherData?.clouds && weatherData.clouds < 30 ? '🌞 Excellent' : 
-                       weatherData?.clouds && weatherData.clouds < 60 ? '⛅ Good' : '☁️ Reduced'} conditions for solar generation
-                    </p>
-                  </div>
-                  
-                  <div className="p-4 rounded-lg bg-energy-wind/10 border border-energy-wind/20">
-                    <h5 className="font-medium text-energy-wind mb-2">Wind Potential</h5>
-                    <p className="text-sm">
-                      Current wind speeds {energyData?.wind.current > 5 ? '🌪️ favor' : 
-                                         energyData?.wind.current > 3 ? '💨 moderately support' : '🍃 limit'} wind generation
-                    </p>
-                  </div>
-                </div>
-              </div>
+              {forecast && energyForecast && (
+                <EnergyForecastView provider={forecast.provider} forecast={energyForecast} />
+              )}
             </div>
           </Card>
         </TabsContent>
@@ -522,25 +609,25 @@ const EnhancedFeatures = ({ energyData, battery, location }: EnhancedFeaturesPro
                     <div className="flex justify-between items-center p-3 rounded-lg bg-muted/50">
                       <span>Solar Capacity Factor</span>
                       <Badge variant="secondary">
-                        {energyData ? ((energyData.solar.average / 8) * 100).toFixed(0) : 0}%
+                        {pvCapacity > 0 ? ((dailySolar / (pvCapacity * 24)) * 100).toFixed(0) : 0}%
                       </Badge>
                     </div>
                     <div className="flex justify-between items-center p-3 rounded-lg bg-muted/50">
                       <span>Wind Capacity Factor</span>
                       <Badge variant="secondary">
-                        {energyData ? ((energyData.wind.average / 10) * 100).toFixed(0) : 0}%
+                        {windCapacity > 0 ? ((dailyWind / (windCapacity * 24)) * 100).toFixed(0) : 0}%
                       </Badge>
                     </div>
                     <div className="flex justify-between items-center p-3 rounded-lg bg-muted/50">
                       <span>Battery Efficiency</span>
                       <Badge variant="secondary">
-                        {battery ? (95 - (battery.capacity > 100 ? 5 : 0)).toFixed(0) : 95}%
+                        {(system.battery.roundTripEfficiency * 100).toFixed(0)}%
                       </Badge>
                     </div>
                     <div className="flex justify-between items-center p-3 rounded-lg bg-muted/50">
                       <span>Grid Independence</span>
                       <Badge variant="secondary">
-                        {energyData ? Math.min(100, ((energyData.solar.average + energyData.wind.average) / energyConsumption.dailyDemand * 100)).toFixed(0) : 0}%
+                        {energyData ? (dispatchSummary.renewableFraction * 100).toFixed(0) : 0}%
                       </Badge>
                     </div>
                   </div>
@@ -552,23 +639,29 @@ const EnhancedFeatures = ({ energyData, battery, location }: EnhancedFeaturesPro
                     <div className="p-3 rounded-lg bg-energy-solar/10 border border-energy-solar/20">
                       <h5 className="font-medium text-energy-solar">Solar Optimization</h5>
                       <p className="text-sm text-muted-foreground mt-1">
-                        Add {((energyConsumption.dailyDemand - (energyData?.solar.average || 0)) / 5).toFixed(1)}kW panels 
-                        for energy independence
+                        {recommendedSizing
+                          ? `${recommendedSizing.pvCapacity.toFixed(1)} kWp of PV with ${recommendedSizing.turbines} turbine(s) ` +
+                            `is the least-cost mix for the reliability target`
+                          : 'Run the system sizing search below to size PV against the hourly simulation'}
                       </p>
                     </div>
                     
                     <div className="p-3 rounded-lg bg-energy-battery/10 border border-energy-battery/20">
                       <h5 className="font-medium text-energy-battery">Battery Sizing</h5>
                       <p className="text-sm text-muted-foreground mt-1">
-                        Optimal battery: {(energyConsumption.dailyDemand * 1.5).toFixed(0)}kWh 
-                        for 36-hour backup
+                        {recommendedSizing
+                          ? `${recommendedSizing.battery} kWh keeps load lost to ` +
+                            `${(recommendedSizing.lolp * 100).toFixed(1)}% of hours`
+                          : 'Run the system sizing search below to size storage against the hourly simulation'}
                       </p>
                     </div>
                     
                     <div className="p-3 rounded-lg bg-energy-wind/10 border border-energy-wind/20">
                       <h5 className="font-medium text-energy-wind">Load Management</h5>
                       <p className="text-sm text-muted-foreground mt-1">
-                        Shift {(energyConsumption.dailyDemand * 0.3).toFixed(1)}kWh to peak renewable hours
+                        {shiftPlan.energySaved > 0
+                          ? `Reschedule deferrable loads to save ${shiftPlan.energySaved.toFixed(1)}kWh (₹${shiftPlan.costSaved.toFixed(0)}) a day`
+                          : 'Deferrable loads already run in renewable hours'}
                       </p>
                     </div>
                   </div>
@@ -576,6 +669,29 @@ const EnhancedFeatures = ({ energyData, battery, location }: EnhancedFeaturesPro
               </div>
             </div>
           </Card>
+
+          <SystemSizingOptimizer
+            latitude={location?.latitude ?? 0}
+            resource={resource}
+            appliances={energyConsumption.appliances}
+            measuredLoad={energyConsumption.measuredLoad}
+            system={system}
+            costs={finance}
+            onCostsChange={costs => onFinanceChange({ ...finance, ...costs })}
+            result={sizing}
+            onResult={result => {
+              setSizing(result);
+              onSizingResult(result.recommended);
+            }}
+            onApply={onApplySizing}
+          />
+
+          <LoadShiftOptimizer
+            plan={shiftPlan}
+            objective={shiftObjective}
+            onObjectiveChange={setShiftObjective}
+            onApply={() => onEnergyConsumptionChange(prev => ({ ...prev, appliances: applyShiftPlan(prev.appliances, shiftPlan) }))}
+          />
         </TabsContent>
       </Tabs>
     </div>
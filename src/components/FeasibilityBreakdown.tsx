@@ -0,0 +1,74 @@
+import { Lightbulb } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { FEASIBILITY_INPUTS, type FeasibilityAssessment } from '@/lib/feasibility';
+
+interface FeasibilityBreakdownProps {
+  assessment: FeasibilityAssessment;
+}
+
+const tooltipStyle = {
+  backgroundColor: 'hsl(var(--card))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '8px'
+};
+
+const FeasibilityBreakdown = ({ assessment }: FeasibilityBreakdownProps) => {
+  const data = assessment.factors.map(factor => ({
+    label: factor.label,
+    earned: Number(factor.points.toFixed(1)),
+    remaining: Number((factor.maxPoints - factor.points).toFixed(1)),
+    detail: `${(factor.subScore * 100).toFixed(0)}% of a ${(factor.weight * 100).toFixed(0)}% weight`
+  }));
+
+  return (
+    <div className="space-y-4 text-left">
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} layout="vertical" margin={{ left: 24 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis type="number" domain={[0, 'dataMax']} stroke="hsl(var(--muted-foreground))" unit=" pts" />
+            <YAxis type="category" dataKey="label" width={110} stroke="hsl(var(--muted-foreground))" />
+            <Tooltip
+              contentStyle={tooltipStyle}
+              labelFormatter={(label: string, payload) => `${label} (${payload?.[0]?.payload?.detail ?? ''})`}
+            />
+            <Legend />
+            <Bar dataKey="earned" name="Points earned" stackId="score" fill="hsl(var(--battery))" />
+            <Bar dataKey="remaining" name="Points available" stackId="score" fill="hsl(var(--muted))" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div>
+        <h4 className="font-semibold mb-2">Sensitivity</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+          {assessment.sensitivity.map(item => {
+            const { label, unit } = FEASIBILITY_INPUTS[item.input];
+            return (
+              <div key={item.input} className="flex justify-between gap-2">
+                <span className="text-muted-foreground">{label} ({item.value.toFixed(1)} {unit})</span>
+                <span className="font-medium">
+                  {item.perUnit > 0 ? `+${item.perUnit.toFixed(1)} pts per ${unit}` : 'No effect'}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {assessment.hints.length > 0 && (
+        <div className="p-4 rounded-lg bg-muted/50 border space-y-2">
+          <div className="flex items-center gap-2 font-medium">
+            <Lightbulb className="w-4 h-4 text-energy-solar" />
+            What would raise this score
+          </div>
+          <ul className="text-sm space-y-1">
+            {assessment.hints.map(hint => <li key={hint}>• {hint}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FeasibilityBreakdown;
@@ -0,0 +1,261 @@
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BadgePercent } from 'lucide-react';
+import {
+  CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis
+} from 'recharts';
+import type { FinanceResult } from '@/lib/finance';
+import {
+  INCENTIVE_PRESETS, SUBSIDY_BASIS_LABELS, SUBSIDY_SCOPE_LABELS, type IncentivePresetId, type IncentiveSettings,
+  type SubsidyBasis, type SubsidyScope
+} from '@/lib/incentives';
+
+interface IncentiveCalculatorProps {
+  incentives: IncentiveSettings;
+  onChange: (incentives: IncentiveSettings) => void;
+  withIncentives: FinanceResult;
+  withoutIncentives: FinanceResult;
+}
+
+type NumericKey = Exclude<keyof IncentiveSettings, 'preset' | 'subsidyBasis' | 'subsidyScope'>;
+
+interface IncentiveField {
+  key: NumericKey;
+  label: string;
+  percent?: boolean; // stored as a fraction, edited as a percentage
+  step?: number;
+}
+
+const DEPRECIATION_FIELDS: IncentiveField[] = [
+  { key: 'depreciationRate', label: 'Depreciation (% WDV/yr)', percent: true, step: 5 },
+  { key: 'taxRate', label: 'Tax rate (%)', percent: true, step: 1 }
+];
+
+const GBI_FIELDS: IncentiveField[] = [
+  { key: 'gbiRate', label: 'GBI (₹/kWh)', step: 0.25 },
+  { key: 'gbiYears', label: 'GBI term (yrs)', step: 1 }
+];
+
+const CUSTOM = 'custom';
+
+const tooltipStyle = {
+  backgroundColor: 'hsl(var(--card))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '8px'
+};
+
+const rupees = (value: number) => `₹${Math.round(value).toLocaleString('en-IN')}`;
+
+const formatYears = (value: number | null) => (value === null ? 'Beyond horizon' : `${value.toFixed(1)} yrs`);
+
+const IncentiveCalculator = ({ incentives, onChange, withIncentives, withoutIncentives }: IncentiveCalculatorProps) => {
+  // Any edit turns a preset into a custom scheme
+  const update = (changes: Partial<IncentiveSettings>) => onChange({ ...incentives, ...changes, preset: CUSTOM });
+
+  const subsidyFields: IncentiveField[] = incentives.subsidyBasis === 'none' ? [] : [
+    incentives.subsidyBasis === 'percent'
+      ? { key: 'subsidyRate', label: 'Subsidy (% of cost)', percent: true, step: 5 }
+      : { key: 'subsidyRate', label: 'Subsidy (₹/kW)', step: 1000 },
+    { key: 'subsidyCapacityCap', label: 'Eligible capacity (kW, 0 = all)', step: 0.5 },
+    { key: 'subsidyCap', label: 'Subsidy cap (₹, 0 = none)', step: 1000 }
+  ];
+
+  const renderField = (field: IncentiveField) => (
+    <div key={field.key} className="space-y-1">
+      <label className="text-xs font-medium">{field.label}</label>
+      <Input
+        type="number"
+        min={0}
+        step={field.step}
+        value={field.percent ? Number((incentives[field.key] * 100).toFixed(2)) : incentives[field.key]}
+        onChange={(e) => {
+          const value = Number(e.target.value);
+          update({ [field.key]: field.percent ? value / 100 : value });
+        }}
+      />
+    </div>
+  );
+
+  const comparison = [
+    { label: 'Net capital cost', without: rupees(withoutIncentives.netCapex), with: rupees(withIncentives.netCapex) },
+    { label: 'Net present value', without: rupees(withoutIncentives.npv), with: rupees(withIncentives.npv) },
+    {
+      label: 'Internal rate of return',
+      without: withoutIncentives.irr === null ? 'n/a' : `${(withoutIncentives.irr * 100).toFixed(1)}%`,
+      with: withIncentives.irr === null ? 'n/a' : `${(withIncentives.irr * 100).toFixed(1)}%`
+    },
+    {
+      label: 'LCOE',
+      without: withoutIncentives.lcoe === null ? 'n/a' : `₹${withoutIncentives.lcoe.toFixed(2)}/kWh`,
+      with: withIncentives.lcoe === null ? 'n/a' : `₹${withIncentives.lcoe.toFixed(2)}/kWh`
+    },
+    {
+      label: 'Simple payback',
+      without: formatYears(withoutIncentives.simplePayback),
+      with: formatYears(withIncentives.simplePayback)
+    },
+    {
+      label: 'Discounted payback',
+      without: formatYears(withoutIncentives.discountedPayback),
+      with: formatYears(withIncentives.discountedPayback)
+    }
+  ];
+
+  const value = withIncentives.incentiveValue;
+  const breakdown = [
+    { label: 'Capital subsidy', value: value.subsidy, color: 'text-energy-solar' },
+    { label: 'Depreciation tax saving (PV)', value: value.depreciation, color: 'text-energy-wind' },
+    { label: 'Generation incentive (PV)', value: value.gbi, color: 'text-energy-battery' }
+  ];
+
+  const chartData = withIncentives.years.map((year, index) => ({
+    year: year.year,
+    with: year.cumulative,
+    without: withoutIncentives.years[index]?.cumulative
+  }));
+
+  return (
+    <Card className="glass-card p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <BadgePercent className="w-5 h-5 text-energy-solar" />
+          <h3 className="text-xl font-semibold">Subsidies & Incentives</h3>
+        </div>
+        <Select
+          value={incentives.preset && incentives.preset in INCENTIVE_PRESETS ? incentives.preset : CUSTOM}
+          onValueChange={(preset) => {
+            if (preset !== CUSTOM) onChange(INCENTIVE_PRESETS[preset as IncentivePresetId].incentives);
+          }}
+        >
+          <SelectTrigger className="w-80">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(INCENTIVE_PRESETS) as IncentivePresetId[]).map(id => (
+              <SelectItem key={id} value={id}>{INCENTIVE_PRESETS[id].label}</SelectItem>
+            ))}
+            <SelectItem value={CUSTOM}>Custom</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="font-semibold">Capital Subsidy</h4>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Basis</label>
+            <Select
+              value={incentives.subsidyBasis}
+              onValueChange={(basis) => update({ subsidyBasis: basis as SubsidyBasis, subsidyRate: 0 })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SUBSIDY_BASIS_LABELS) as SubsidyBasis[]).map(basis => (
+                  <SelectItem key={basis} value={basis}>{SUBSIDY_BASIS_LABELS[basis]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {incentives.subsidyBasis !== 'none' && (
+            <div className="space-y-1">
+              <label className="text-xs font-medium">Applies to</label>
+              <Select
+                value={incentives.subsidyScope}
+                onValueChange={(scope) => update({ subsidyScope: scope as SubsidyScope })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SUBSIDY_SCOPE_LABELS) as SubsidyScope[]).map(scope => (
+                    <SelectItem key={scope} value={scope}>{SUBSIDY_SCOPE_LABELS[scope]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {subsidyFields.map(renderField)}
+        </div>
+      </div>
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <h4 className="font-semibold">Accelerated Depreciation</h4>
+          <div className="grid grid-cols-2 gap-3">{DEPRECIATION_FIELDS.map(renderField)}</div>
+        </div>
+        <div className="space-y-2">
+          <h4 className="font-semibold">Generation-Based Incentive</h4>
+          <div className="grid grid-cols-2 gap-3">{GBI_FIELDS.map(renderField)}</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {breakdown.map(item => (
+          <div key={item.label} className="p-3 rounded-lg bg-muted/50">
+            <p className="text-xs text-muted-foreground">{item.label}</p>
+            <p className={`text-lg font-bold ${item.color}`}>{rupees(item.value)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                <TableHead className="text-right">Without incentives</TableHead>
+                <TableHead className="text-right">With incentives</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comparison.map(row => (
+                <TableRow key={row.label}>
+                  <TableCell className="text-muted-foreground">{row.label}</TableCell>
+                  <TableCell className="text-right">{row.without}</TableCell>
+                  <TableCell className="text-right font-medium">{row.with}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis dataKey="year" stroke="hsl(var(--muted-foreground))" />
+              <YAxis stroke="hsl(var(--muted-foreground))" tickFormatter={(tick: number) => `${(tick / 100000).toFixed(1)}L`} />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                labelFormatter={(year: number) => `Year ${year}`}
+                formatter={(amount: number) => rupees(amount)}
+              />
+              <Legend />
+              <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+              <Line
+                type="monotone"
+                dataKey="without"
+                name="Without incentives"
+                stroke="hsl(var(--muted-foreground))"
+                strokeDasharray="4 2"
+                strokeWidth={2}
+                dot={false}
+              />
+              <Line type="monotone" dataKey="with" name="With incentives" stroke="hsl(var(--solar))" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Cumulative discounted cash flow. Depreciation is claimed on the cost left after the subsidy; scheme presets are
+        indicative, so check current guidelines.
+      </p>
+    </Card>
+  );
+};
+
+export default IncentiveCalculator;
@@ -0,0 +1,173 @@
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LineChart as LineChartIcon } from 'lucide-react';
+import {
+  Bar, CartesianGrid, Cell, ComposedChart, Legend, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis
+} from 'recharts';
+import type { FinanceResult, FinanceSettings } from '@/lib/finance';
+
+interface LifecycleFinanceProps {
+  result: FinanceResult;
+  settings: FinanceSettings;
+  onSettingsChange: (settings: FinanceSettings) => void;
+}
+
+interface SettingField {
+  key: keyof FinanceSettings;
+  label: string;
+  percent?: boolean; // stored as a fraction, edited as a percentage
+  step?: number;
+}
+
+const COST_FIELDS: SettingField[] = [
+  { key: 'pvCost', label: 'PV (₹/kWp)', step: 1000 },
+  { key: 'windCost', label: 'Wind (₹/kW)', step: 1000 },
+  { key: 'batteryCost', label: 'Battery (₹/kWh)', step: 500 },
+  { key: 'inverterCost', label: 'Inverter (₹/kW)', step: 500 },
+  { key: 'balanceOfSystem', label: 'Balance of system (₹)', step: 1000 }
+];
+
+const ASSUMPTION_FIELDS: SettingField[] = [
+  { key: 'omRate', label: 'O&M (% of capex/yr)', percent: true, step: 0.1 },
+  { key: 'batteryLife', label: 'Battery life (yrs)', step: 1 },
+  { key: 'inverterLife', label: 'Inverter life (yrs)', step: 1 },
+  { key: 'discountRate', label: 'Discount rate (%)', percent: true, step: 0.5 },
+  { key: 'inflation', label: 'Inflation (%)', percent: true, step: 0.5 },
+  { key: 'tariffEscalation', label: 'Tariff escalation (%)', percent: true, step: 0.5 },
+  { key: 'degradation', label: 'PV degradation (%/yr)', percent: true, step: 0.1 },
+  { key: 'years', label: 'Horizon (yrs)', step: 1 }
+];
+
+const tooltipStyle = {
+  backgroundColor: 'hsl(var(--card))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '8px'
+};
+
+const rupees = (value: number) => `₹${Math.round(value).toLocaleString('en-IN')}`;
+
+const formatYears = (value: number | null) => (value === null ? 'Beyond horizon' : `${value.toFixed(1)} years`);
+
+const LifecycleFinance = ({ result, settings, onSettingsChange }: LifecycleFinanceProps) => {
+  const renderField = (field: SettingField) => (
+    <div key={field.key} className="space-y-1">
+      <label className="text-xs font-medium">{field.label}</label>
+      <Input
+        type="number"
+        min={0}
+        step={field.step}
+        value={field.percent ? Number((settings[field.key] * 100).toFixed(2)) : settings[field.key]}
+        onChange={(e) => {
+          const value = Number(e.target.value);
+          onSettingsChange({ ...settings, [field.key]: field.percent ? value / 100 : value });
+        }}
+      />
+    </div>
+  );
+
+  const metrics = [
+    { label: 'Net Present Value', value: rupees(result.npv), color: result.npv >= 0 ? 'text-energy-battery' : 'text-destructive' },
+    {
+      label: 'Internal Rate of Return',
+      value: result.irr === null ? 'n/a' : `${(result.irr * 100).toFixed(1)}%`,
+      color: 'text-energy-wind'
+    },
+    { label: 'LCOE', value: result.lcoe === null ? 'n/a' : `₹${result.lcoe.toFixed(2)}/kWh`, color: 'text-energy-solar' },
+    { label: 'Discounted Payback', value: formatYears(result.discountedPayback), color: 'text-energy-grid' }
+  ];
+
+  return (
+    <Card className="glass-card p-6 space-y-6">
+      <div className="flex items-center gap-2">
+        <LineChartIcon className="w-5 h-5 text-energy-wind" />
+        <h3 className="text-xl font-semibold">Lifecycle Finance</h3>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="font-semibold">Capital Costs</h4>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">{COST_FIELDS.map(renderField)}</div>
+      </div>
+      <div className="space-y-2">
+        <h4 className="font-semibold">Assumptions</h4>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">{ASSUMPTION_FIELDS.map(renderField)}</div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {metrics.map(metric => (
+          <div key={metric.label} className="p-3 rounded-lg bg-muted/50">
+            <p className="text-xs text-muted-foreground">{metric.label}</p>
+            <p className={`text-lg font-bold ${metric.color}`}>{metric.value}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Simple payback {formatYears(result.simplePayback).toLowerCase()} on {rupees(result.netCapex)} of capital cost
+        {result.netCapex < result.totalCapex ? ' after the subsidy' : ''}.
+      </p>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={result.years}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis dataKey="year" stroke="hsl(var(--muted-foreground))" />
+            <YAxis stroke="hsl(var(--muted-foreground))" tickFormatter={(value: number) => `${(value / 100000).toFixed(1)}L`} />
+            <Tooltip
+              contentStyle={tooltipStyle}
+              labelFormatter={(year: number) => `Year ${year}`}
+              formatter={(value: number) => rupees(value)}
+            />
+            <Legend />
+            <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+            <Bar dataKey="cashFlow" name="Net cash flow">
+              {result.years.map(year => (
+                <Cell key={year.year} fill={year.cashFlow >= 0 ? 'hsl(var(--battery))' : 'hsl(var(--destructive))'} />
+              ))}
+            </Bar>
+            <Line
+              type="monotone"
+              dataKey="cumulative"
+              name="Cumulative discounted"
+              stroke="hsl(var(--wind))"
+              strokeWidth={2}
+              dot={false}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="max-h-80 overflow-auto rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Year</TableHead>
+              <TableHead className="text-right">Energy (kWh)</TableHead>
+              <TableHead className="text-right">Savings</TableHead>
+              <TableHead className="text-right">O&M</TableHead>
+              <TableHead className="text-right">Replacements</TableHead>
+              <TableHead className="text-right">Incentives</TableHead>
+              <TableHead className="text-right">Net</TableHead>
+              <TableHead className="text-right">Cumulative (PV)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {result.years.map(year => (
+              <TableRow key={year.year}>
+                <TableCell>{year.year}</TableCell>
+                <TableCell className="text-right">{year.energy.toFixed(0)}</TableCell>
+                <TableCell className="text-right">{rupees(year.savings)}</TableCell>
+                <TableCell className="text-right">{rupees(year.om)}</TableCell>
+                <TableCell className="text-right">{year.replacements > 0 ? rupees(year.replacements) : '–'}</TableCell>
+                <TableCell className="text-right">{year.incentives > 0 ? rupees(year.incentives) : '–'}</TableCell>
+                <TableCell className={`text-right ${year.cashFlow < 0 ? 'text-destructive' : ''}`}>{rupees(year.cashFlow)}</TableCell>
+                <TableCell className="text-right">{rupees(year.cumulative)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </Card>
+  );
+};
+
+export default LifecycleFinance;
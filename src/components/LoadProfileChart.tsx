@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import {
+  HOURS_PER_DAY, SEASON_LABELS, applianceProfile, buildTierProfiles, currentLoadContext, derivePeakHours, totalProfile,
+  type LoadContext
+} from '@/lib/load-profile';
+import type { Appliance, DayType, MeasuredLoad, Season } from '@/types/energy';
+
+interface LoadProfileChartProps {
+  appliances: Appliance[];
+  measuredLoad?: MeasuredLoad | null;
+}
+
+const COLORS = ['hsl(var(--solar))', 'hsl(var(--wind))', 'hsl(var(--battery))', 'hsl(var(--grid))', 'hsl(var(--accent))'];
+
+const LoadProfileChart = ({ appliances, measuredLoad = null }: LoadProfileChartProps) => {
+  const [context, setContext] = useState<LoadContext>(currentLoadContext);
+
+  const profiles = appliances.map(appliance => applianceProfile(appliance, context));
+  const chartData = Array.from({ length: HOURS_PER_DAY }, (_, hour) => {
+    const row: Record<string, number | string> = { hour: `${String(hour).padStart(2, '0')}:00` };
+    profiles.forEach((profile, i) => {
+      row[`a${i}`] = profile[hour];
+    });
+    if (measuredLoad) row.metered = measuredLoad[context.dayType][hour];
+    return row;
+  });
+  // Demand the models use, after fitting to any meter log
+  const total = totalProfile(buildTierProfiles(appliances, context, measuredLoad));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h4 className="font-semibold">24-hour Load Profile</h4>
+        <div className="flex items-center gap-2">
+          <Select value={context.dayType} onValueChange={(dayType) => setContext(prev => ({ ...prev, dayType: dayType as DayType }))}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="weekday">Weekday</SelectItem>
+              <SelectItem value="weekend">Weekend</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={context.season} onValueChange={(season) => setContext(prev => ({ ...prev, season: season as Season }))}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SEASON_LABELS).map(([season, label]) => (
+                <SelectItem key={season} value={season}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Badge variant="secondary">Peak hours: {derivePeakHours(total) || 'none'}</Badge>
+        <Badge variant="outline">{total.reduce((a, b) => a + b, 0).toFixed(1)} kWh/day</Badge>
+        <Badge variant="outline">Peak {Math.max(0, ...total).toFixed(2)} kW</Badge>
+        {measuredLoad && (
+          <Badge variant="outline">
+            {measuredLoad.mode === 'replace' ? 'Replaced' : 'Calibrated'} by {measuredLoad.fileName}
+          </Badge>
+        )}
+      </div>
+
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis dataKey="hour" stroke="hsl(var(--muted-foreground))" minTickGap={20} />
+            <YAxis stroke="hsl(var(--muted-foreground))" unit=" kW" />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px'
+              }}
+              formatter={(value: number) => `${value.toFixed(2)} kW`}
+            />
+            {appliances.map((appliance, i) => (
+              <Area
+                key={i}
+                type="stepAfter"
+                dataKey={`a${i}`}
+                name={appliance.name}
+                stackId="load"
+                stroke={COLORS[i % COLORS.length]}
+                fill={COLORS[i % COLORS.length]}
+                fillOpacity={0.4}
+              />
+            ))}
+            {measuredLoad && (
+              <Line
+                type="stepAfter"
+                dataKey="metered"
+                name="Metered"
+                stroke="hsl(var(--foreground))"
+                strokeDasharray="4 2"
+                dot={false}
+              />
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default LoadProfileChart;
@@ -0,0 +1,166 @@
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { ShieldAlert } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import type { DispatchResult, LoadSheddingConfig } from '@/lib/simulation';
+import { HOURS_PER_DAY, LOAD_PRIORITIES, buildTierProfiles, loadContext } from '@/lib/load-profile';
+import type { Appliance, LoadPriority, MeasuredLoad } from '@/types/energy';
+
+interface LoadSheddingReportProps {
+  result: DispatchResult;
+  appliances: Appliance[];
+  measuredLoad?: MeasuredLoad | null;
+  config: LoadSheddingConfig;
+  onConfigChange: (config: LoadSheddingConfig) => void;
+}
+
+const TIER_LABELS: Record<LoadPriority, string> = {
+  critical: 'Critical',
+  essential: 'Essential',
+  deferrable: 'Deferrable'
+};
+
+const RECENT_EVENTS = 8;
+
+const LoadSheddingReport = ({ result, appliances, measuredLoad = null, config, onConfigChange }: LoadSheddingReportProps) => {
+  const { summary, steps } = result;
+
+  const tierData = LOAD_PRIORITIES.map(tier => ({
+    tier: TIER_LABELS[tier],
+    served: summary.tiers[tier].served,
+    shed: summary.tiers[tier].shed,
+    unmet: summary.tiers[tier].unmet
+  }));
+
+  // Shed energy by hour of day, split by tier
+  const hourlyShed = Array.from({ length: HOURS_PER_DAY }, (_, hour) => ({
+    hour: `${String(hour).padStart(2, '0')}:00`,
+    essential: 0,
+    deferrable: 0
+  }));
+  const tierProfiles = new Map<string, ReturnType<typeof buildTierProfiles>>();
+  const shedSteps = steps.filter(step => step.shedLoad > 0);
+  shedSteps.forEach(step => {
+    const hour = Number(step.time.slice(11, 13));
+    const date = step.time.slice(0, 10);
+    if (!tierProfiles.has(date)) tierProfiles.set(date, buildTierProfiles(appliances, loadContext(date), measuredLoad));
+    step.shedTiers.forEach(tier => {
+      if (tier !== 'critical') hourlyShed[hour][tier] += tierProfiles.get(date)[tier][hour];
+    });
+  });
+
+  const appliancesIn = (tiers: LoadPriority[]) =>
+    appliances.filter(a => tiers.includes(a.priority)).map(a => a.name).join(', ');
+
+  return (
+    <Card className="glass-card p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-destructive" />
+          <h3 className="text-xl font-semibold">Critical Load Mode</h3>
+        </div>
+        <Badge variant={shedSteps.length > 0 ? 'destructive' : 'secondary'}>
+          {shedSteps.length} hours with shedding
+        </Badge>
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-4">
+        <div className="flex items-center gap-3 pt-6">
+          <Switch
+            checked={config.enabled}
+            onCheckedChange={(enabled) => onConfigChange({ ...config, enabled })}
+          />
+          <label className="text-sm font-medium">Shed loads when battery is low</label>
+        </div>
+        <div>
+          <label className="text-sm font-medium">Shed deferrable below (% usable charge)</label>
+          <Input
+            type="number"
+            min="0"
+            max="100"
+            value={Math.round(config.deferrableBelow * 100)}
+            onChange={(e) => onConfigChange({ ...config, deferrableBelow: Number(e.target.value) / 100 })}
+          />
+        </div>
+        <div>
+          <label className="text-sm font-medium">Shed essential below (% usable charge)</label>
+          <Input
+            type="number"
+            min="0"
+            max="100"
+            value={Math.round(config.essentialBelow * 100)}
+            onChange={(e) => onConfigChange({ ...config, essentialBelow: Number(e.target.value) / 100 })}
+          />
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <h4 className="font-semibold">Energy Served per Tier</h4>
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={tierData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="tier" stroke="hsl(var(--muted-foreground))" />
+                <YAxis stroke="hsl(var(--muted-foreground))" />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px'
+                  }}
+                  formatter={(value: number) => `${value.toFixed(1)} kWh`}
+                />
+                <Legend />
+                <Bar dataKey="served" name="Served" stackId="tier" fill="hsl(var(--battery))" />
+                <Bar dataKey="shed" name="Shed" stackId="tier" fill="hsl(var(--solar))" />
+                <Bar dataKey="unmet" name="Unmet" stackId="tier" fill="hsl(var(--destructive))" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-semibold">Shedding by Hour of Day</h4>
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={hourlyShed}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="hour" stroke="hsl(var(--muted-foreground))" minTickGap={20} />
+                <YAxis stroke="hsl(var(--muted-foreground))" />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px'
+                  }}
+                  formatter={(value: number) => `${value.toFixed(1)} kWh`}
+                />
+                <Legend />
+                <Bar dataKey="deferrable" name="Deferrable" stackId="shed" fill="hsl(var(--wind))" />
+                <Bar dataKey="essential" name="Essential" stackId="shed" fill="hsl(var(--grid))" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      {shedSteps.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-semibold">Recent Shedding Events</h4>
+          {shedSteps.slice(-RECENT_EVENTS).reverse().map(step => (
+            <div key={step.time} className="flex justify-between items-center p-3 rounded-lg bg-muted/50 text-sm">
+              <span className="font-medium">{step.time.replace('T', ' ')}</span>
+              <span className="text-muted-foreground">{appliancesIn(step.shedTiers)}</span>
+              <Badge variant="outline">{step.shedLoad.toFixed(2)} kWh</Badge>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default LoadSheddingReport;
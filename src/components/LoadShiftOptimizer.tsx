@@ -0,0 +1,117 @@
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Shuffle } from 'lucide-react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { formatWindows } from '@/lib/load-profile';
+import type { ShiftObjective, ShiftPlan } from '@/lib/load-shifting';
+
+interface LoadShiftOptimizerProps {
+  plan: ShiftPlan;
+  objective: ShiftObjective;
+  onObjectiveChange: (objective: ShiftObjective) => void;
+  onApply: () => void;
+}
+
+const DAYS_PER_YEAR = 365;
+
+const LoadShiftOptimizer = ({ plan, objective, onObjectiveChange, onApply }: LoadShiftOptimizerProps) => {
+  const chartData = plan.before.map((before, hour) => ({
+    hour: `${String(hour).padStart(2, '0')}:00`,
+    generation: plan.generation[hour] ?? 0,
+    before,
+    after: plan.after[hour]
+  }));
+  const anyMoved = plan.appliances.some(entry => entry.moved);
+
+  const metrics = [
+    { label: 'Grid Import Before', value: `${plan.gridImportBefore.toFixed(1)} kWh/day`, color: 'text-energy-grid' },
+    { label: 'Grid Import After', value: `${plan.gridImportAfter.toFixed(1)} kWh/day`, color: 'text-energy-wind' },
+    { label: 'Energy Saved', value: `${plan.energySaved.toFixed(1)} kWh/day`, color: 'text-energy-battery' },
+    {
+      label: 'Cost Saved',
+      value: `₹${plan.costSaved.toFixed(0)}/day · ₹${(plan.costSaved * DAYS_PER_YEAR).toFixed(0)}/yr`,
+      color: 'text-energy-solar'
+    }
+  ];
+
+  return (
+    <Card className="glass-card p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Shuffle className="w-5 h-5 text-energy-wind" />
+          <h3 className="text-xl font-semibold">Load Shifting</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={objective} onValueChange={(value) => onObjectiveChange(value as ShiftObjective)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="grid-import">Minimise grid import</SelectItem>
+              <SelectItem value="cost">Minimise cost</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={onApply} disabled={!anyMoved}>Apply Schedule</Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {metrics.map(metric => (
+          <div key={metric.label} className="p-3 rounded-lg bg-muted/50">
+            <p className="text-xs text-muted-foreground">{metric.label}</p>
+            <p className={`text-lg font-bold ${metric.color}`}>{metric.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {plan.appliances.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Give deferrable appliances a "Can Be Moved Within" window to let the optimiser reschedule them.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {plan.appliances.map(entry => (
+            <div key={entry.index} className="flex flex-wrap items-center justify-between gap-2 p-3 rounded-lg bg-muted/50">
+              <div>
+                <p className="font-medium">{entry.name}</p>
+                <p className="text-xs text-muted-foreground">{entry.energy.toFixed(1)} kWh/day</p>
+              </div>
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-muted-foreground">{formatWindows(entry.original)}</span>
+                <span>→</span>
+                <span className="font-medium">{formatWindows(entry.shifted)}</span>
+                <Badge variant={entry.moved ? 'default' : 'secondary'}>{entry.moved ? 'Moved' : 'Already optimal'}</Badge>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis dataKey="hour" stroke="hsl(var(--muted-foreground))" minTickGap={20} />
+            <YAxis stroke="hsl(var(--muted-foreground))" unit=" kW" />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px'
+              }}
+              formatter={(value: number) => `${value.toFixed(2)} kW`}
+            />
+            <Legend />
+            <Area type="monotone" dataKey="generation" name="Renewable" stroke="hsl(var(--solar))" fill="hsl(var(--solar))" fillOpacity={0.2} />
+            <Line type="stepAfter" dataKey="before" name="Load before" stroke="hsl(var(--grid))" strokeDasharray="4 4" dot={false} />
+            <Line type="stepAfter" dataKey="after" name="Load after" stroke="hsl(var(--wind))" strokeWidth={2} dot={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </Card>
+  );
+};
+
+export default LoadShiftOptimizer;
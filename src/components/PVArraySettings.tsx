@@ -0,0 +1,57 @@
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Sun } from 'lucide-react';
+import { arrayArea, arrayCapacity, type PVArrayConfig } from '@/lib/pv';
+
+interface PVArraySettingsProps {
+  config: PVArrayConfig;
+  onChange: (config: PVArrayConfig) => void;
+}
+
+// Percent fields are edited as percentages and stored as fractions
+const FIELDS: Array<{ key: keyof PVArrayConfig; label: string; step: string; percent?: boolean }> = [
+  { key: 'panelCount', label: 'Panel Count', step: '1' },
+  { key: 'panelRating', label: 'Panel Rating (Wp)', step: '5' },
+  { key: 'tilt', label: 'Tilt (°)', step: '1' },
+  { key: 'azimuth', label: 'Azimuth (°, 180 = south)', step: '5' },
+  { key: 'moduleEfficiency', label: 'Module Efficiency (%)', step: '0.1', percent: true },
+  { key: 'temperatureCoefficient', label: 'Temp. Coefficient (%/°C)', step: '0.01', percent: true },
+  { key: 'inverterEfficiency', label: 'Inverter Efficiency (%)', step: '0.5', percent: true },
+  { key: 'systemLosses', label: 'System Losses (%)', step: '0.5', percent: true }
+];
+
+const PVArraySettings = ({ config, onChange }: PVArraySettingsProps) => {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Sun className="w-4 h-4 text-energy-solar" />
+          <h4 className="font-semibold">PV Array</h4>
+        </div>
+        <div className="flex gap-2">
+          <Badge variant="secondary">{arrayCapacity(config).toFixed(2)} kWp</Badge>
+          <Badge variant="outline">{arrayArea(config).toFixed(1)} m²</Badge>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {FIELDS.map(({ key, label, step, percent }) => (
+          <div key={key}>
+            <label className="text-xs font-medium text-muted-foreground">{label}</label>
+            <Input
+              type="number"
+              step={step}
+              value={percent ? Number((config[key] * 100).toFixed(3)) : config[key]}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                onChange({ ...config, [key]: percent ? value / 100 : value });
+              }}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PVArraySettings;
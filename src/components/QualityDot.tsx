@@ -0,0 +1,19 @@
+interface QualityDotProps {
+  color: string;
+  cx?: number; // injected by recharts
+  cy?: number;
+  payload?: { imputed?: boolean };
+}
+
+// Chart dot that draws interpolated points hollow and dashed so they are never
+// mistaken for observations.
+const QualityDot = ({ color, cx, cy, payload }: QualityDotProps) => {
+  if (cx === undefined || cy === undefined) return null;
+  return payload?.imputed ? (
+    <circle cx={cx} cy={cy} r={4} fill="hsl(var(--card))" stroke={color} strokeWidth={1.5} strokeDasharray="2 2" />
+  ) : (
+    <circle cx={cx} cy={cy} r={3} fill={color} stroke={color} />
+  );
+};
+
+export default QualityDot;
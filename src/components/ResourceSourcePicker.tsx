@@ -0,0 +1,56 @@
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PROVIDER_LABELS, type ProviderId, type Provenance } from '@/lib/resource-provider';
+import { WEATHER_FILE_FORMAT_LABELS, type UploadedWeather } from '@/lib/weather-file';
+import { formatLocalHour } from '@/lib/csv-import';
+
+interface ResourceSourcePickerProps {
+  provider: ProviderId;
+  provenance: Provenance | null;
+  upload: UploadedWeather | null;
+  loading: boolean;
+  onProviderChange: (provider: ProviderId) => void;
+}
+
+const ResourceSourcePicker = ({ provider, provenance, upload, loading, onProviderChange }: ResourceSourcePickerProps) => {
+  const gaps = upload?.gaps;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">Resource data</span>
+        <Select value={provider} onValueChange={(value) => onProviderChange(value as ProviderId)} disabled={loading}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+              <SelectItem key={id} value={id}>{PROVIDER_LABELS[id]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {provider === 'upload' && (upload ? (
+          <>
+            <Badge variant="outline">{WEATHER_FILE_FORMAT_LABELS[upload.format]}</Badge>
+            <Badge variant="outline">{upload.mode === 'replace' ? 'Replaces NASA data' : 'Calibrates NASA data'}</Badge>
+          </>
+        ) : (
+          <span className="text-xs text-muted-foreground">Import a weather file to use this source</span>
+        ))}
+      </div>
+      {provenance && (
+        <p className="text-xs text-muted-foreground">
+          Source: {provenance.source} · {provenance.resolution} · {provenance.start} to {provenance.end}
+        </p>
+      )}
+      {provider === 'upload' && gaps && gaps.gaps.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {(gaps.completeness * 100).toFixed(1)}% of hours present; longest gap {gaps.gaps[0].hours} h from{' '}
+          {formatLocalHour(gaps.gaps[0].start, upload.series.timeZone)}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ResourceSourcePicker;
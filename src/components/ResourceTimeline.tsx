@@ -0,0 +1,127 @@
+import { Fragment, useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator
+} from '@/components/ui/breadcrumb';
+import { Clock } from 'lucide-react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { aggregateSeries, type HourlySeries, type ZoomLevel } from '@/lib/hourly-series';
+
+interface ResourceTimelineProps {
+  series: HourlySeries;
+}
+
+const NEXT_LEVEL: Record<ZoomLevel, ZoomLevel | null> = {
+  month: 'day',
+  day: 'hour',
+  hour: null
+};
+
+const ResourceTimeline = ({ series }: ResourceTimelineProps) => {
+  // Keys of the month and day zoomed into, outermost first
+  const [path, setPath] = useState<string[]>([]);
+  const level: ZoomLevel = path.length === 0 ? 'month' : path.length === 1 ? 'day' : 'hour';
+
+  const buckets = useMemo(
+    () => aggregateSeries(series, level, path[path.length - 1]),
+    [series, level, path]
+  );
+
+  const zoomIn = (key: string) => {
+    if (NEXT_LEVEL[level]) setPath([...path, key]);
+  };
+
+  const solarUnit = level === 'hour' ? 'kWh/m²' : 'kWh/m²/day';
+
+  return (
+    <Card className="glass-card p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Clock className="w-5 h-5 text-primary" />
+          <h3 className="text-xl font-semibold">Hourly Resource Data</h3>
+        </div>
+        <Badge variant="outline">{series.timeZone}</Badge>
+      </div>
+
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            {path.length === 0 ? (
+              <BreadcrumbPage>All months</BreadcrumbPage>
+            ) : (
+              <BreadcrumbLink className="cursor-pointer" onClick={() => setPath([])}>All months</BreadcrumbLink>
+            )}
+          </BreadcrumbItem>
+          {path.map((key, i) => (
+            <Fragment key={key}>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                {i === path.length - 1 ? (
+                  <BreadcrumbPage>{key}</BreadcrumbPage>
+                ) : (
+                  <BreadcrumbLink className="cursor-pointer" onClick={() => setPath(path.slice(0, i + 1))}>
+                    {key}
+                  </BreadcrumbLink>
+                )}
+              </BreadcrumbItem>
+            </Fragment>
+          ))}
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <p className="text-sm text-muted-foreground">
+        {NEXT_LEVEL[level]
+          ? `Click a ${level} to zoom into its ${NEXT_LEVEL[level]}s. Times are local to the site.`
+          : 'Hourly values in site local time.'}
+      </p>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart
+            data={buckets}
+            onClick={(state) => {
+              const bucket = buckets[Number(state?.activeTooltipIndex)];
+              if (bucket) zoomIn(bucket.key);
+            }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis dataKey="label" stroke="hsl(var(--muted-foreground))" />
+            <YAxis yAxisId="solar" stroke="hsl(var(--solar))" unit=" kWh" />
+            <YAxis yAxisId="wind" orientation="right" stroke="hsl(var(--wind))" unit=" m/s" />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px'
+              }}
+              formatter={(value: number) => value.toFixed(2)}
+            />
+            <Legend />
+            <Bar
+              yAxisId="solar"
+              dataKey="irradiance"
+              name={`Solar (${solarUnit})`}
+              fill="hsl(var(--solar))"
+              radius={[4, 4, 0, 0]}
+              className={NEXT_LEVEL[level] ? 'cursor-pointer' : undefined}
+            />
+            <Line yAxisId="wind" type="monotone" dataKey="windSpeed" name="Wind (m/s)" stroke="hsl(var(--wind))" strokeWidth={2} />
+            <Line
+              yAxisId="wind"
+              type="monotone"
+              dataKey="temperature"
+              name="Temperature (°C)"
+              stroke="hsl(var(--destructive))"
+              strokeWidth={1}
+              strokeDasharray="4 2"
+              dot={false}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </Card>
+  );
+};
+
+export default ResourceTimeline;
@@ -0,0 +1,83 @@
+import { Card } from '@/components/ui/card';
+import { Clock } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import type { RuntimeScenario } from '@/lib/runtime';
+
+interface RuntimeScenariosProps {
+  scenarios: RuntimeScenario[];
+}
+
+const SCENARIO_COLORS: Record<RuntimeScenario['id'], string> = {
+  night: 'hsl(var(--grid))',
+  'average-day': 'hsl(var(--solar))',
+  critical: 'hsl(var(--battery))'
+};
+
+const formatRuntime = (scenario: RuntimeScenario) =>
+  scenario.sustained ? `> ${scenario.runtime} hours` : `${scenario.runtime.toFixed(1)} hours`;
+
+const RuntimeScenarios = ({ scenarios }: RuntimeScenariosProps) => {
+  const length = Math.max(0, ...scenarios.map(s => s.curve.length));
+  const chartData = Array.from({ length }, (_, i) => {
+    const row: Record<string, number> = { elapsed: i };
+    scenarios.forEach(scenario => {
+      const point = scenario.curve[i];
+      if (point) row[scenario.id] = point.percentage;
+    });
+    return row;
+  });
+
+  return (
+    <Card className="glass-card p-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <Clock className="w-5 h-5 text-energy-battery" />
+        <h3 className="text-xl font-semibold">Backup Runtime Scenarios</h3>
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-4">
+        {scenarios.map(scenario => (
+          <div key={scenario.id} className="p-4 rounded-lg bg-muted/50 border">
+            <p className="text-sm text-muted-foreground">{scenario.label}</p>
+            <p className="text-2xl font-bold" style={{ color: SCENARIO_COLORS[scenario.id] }}>
+              {formatRuntime(scenario)}
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">{scenario.description}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis dataKey="elapsed" stroke="hsl(var(--muted-foreground))" unit="h" />
+            <YAxis stroke="hsl(var(--muted-foreground))" unit="%" domain={[0, 100]} />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px'
+              }}
+              labelFormatter={(elapsed) => `After ${elapsed} hours`}
+              formatter={(value: number) => `${value.toFixed(1)}%`}
+            />
+            <Legend />
+            {scenarios.map(scenario => (
+              <Line
+                key={scenario.id}
+                type="monotone"
+                dataKey={scenario.id}
+                name={scenario.label}
+                stroke={SCENARIO_COLORS[scenario.id]}
+                strokeWidth={2}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </Card>
+  );
+};
+
+export default RuntimeScenarios;
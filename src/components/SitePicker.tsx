@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import type { Site } from '@/lib/sites';
+
+interface SitePickerProps {
+  sites: Site[];
+  activeSiteId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}
+
+const SitePicker = ({ sites, activeSiteId, onSelect, onCreate, onRename, onDelete }: SitePickerProps) => {
+  const activeSite = sites.find(site => site.id === activeSiteId);
+  const [name, setName] = useState(activeSite?.name ?? '');
+
+  useEffect(() => {
+    setName(activeSite?.name ?? '');
+  }, [activeSite?.name]);
+
+  const commitName = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== activeSite?.name) onRename(trimmed);
+    else setName(activeSite?.name ?? '');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={activeSiteId ?? undefined} onValueChange={onSelect}>
+        <SelectTrigger className="w-48">
+          <SelectValue placeholder="Select a site" />
+        </SelectTrigger>
+        <SelectContent>
+          {sites.map(site => (
+            <SelectItem key={site.id} value={site.id}>{site.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        className="w-48"
+        value={name}
+        disabled={!activeSite}
+        placeholder="Site name"
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commitName}
+        onKeyDown={(e) => e.key === 'Enter' && commitName()}
+      />
+      <Button variant="outline" size="sm" onClick={onCreate}>
+        <Plus className="w-4 h-4 mr-1" />
+        New Site
+      </Button>
+      <Button variant="outline" size="sm" onClick={onDelete} disabled={!activeSite || sites.length < 2}>
+        <Trash2 className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+};
+
+export default SitePicker;
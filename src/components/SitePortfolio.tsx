@@ -0,0 +1,255 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowLeft, ArrowUp, Layers, MapPin } from 'lucide-react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { loadSites, setActiveSiteId } from '@/lib/sites';
+import { summariseSite, type SiteSummary } from '@/lib/portfolio';
+import { FEASIBILITY_STATUS_LABELS, type FeasibilityStatus } from '@/lib/feasibility';
+
+type SortKey = 'name' | 'score' | 'solar' | 'wind' | 'pv' | 'payback' | 'co2';
+type StatusFilter = FeasibilityStatus | 'no-data' | 'all';
+
+const STATUS_COLORS: Record<FeasibilityStatus | 'no-data', string> = {
+  optimal: 'hsl(var(--battery))',
+  moderate: 'hsl(var(--solar))',
+  'not-recommended': 'hsl(var(--destructive))',
+  'no-data': 'hsl(var(--muted-foreground))'
+};
+
+const COLUMNS: Array<{ key: SortKey; label: string; value: (summary: SiteSummary) => number | string | null }> = [
+  { key: 'name', label: 'Site', value: s => s.site.name.toLowerCase() },
+  { key: 'score', label: 'Feasibility', value: s => s.feasibility?.score ?? null },
+  { key: 'solar', label: 'Solar (kWh/m²/day)', value: s => s.solarAverage },
+  { key: 'wind', label: 'Wind (m/s)', value: s => s.windAverage },
+  { key: 'pv', label: 'Recommended System', value: s => s.recommendedPv },
+  { key: 'payback', label: 'Payback', value: s => s.payback },
+  { key: 'co2', label: 'CO₂ Saved', value: s => s.co2Savings }
+];
+
+const statusOf = (summary: SiteSummary) => summary.feasibility?.status ?? 'no-data';
+
+const formatNumber = (value: number | null, digits = 1, unit = '') =>
+  value === null ? '—' : `${value.toFixed(digits)}${unit}`;
+
+const SitePortfolio = () => {
+  const navigate = useNavigate();
+  const [summaries, setSummaries] = useState<SiteSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'score', descending: true });
+
+  useEffect(() => {
+    loadSites()
+      .then(sites => setSummaries(sites.map(summariseSite)))
+      .catch(error => console.error('Failed to load saved sites:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const rows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const column = COLUMNS.find(c => c.key === sort.key);
+    const filtered = summaries.filter(summary => {
+      const { name, location } = summary.site;
+      const text = [name, location?.city, location?.region, location?.country].join(' ').toLowerCase();
+      return (!query || text.includes(query)) && (statusFilter === 'all' || statusOf(summary) === statusFilter);
+    });
+
+    // Sites without a value always sort last
+    return filtered.sort((a, b) => {
+      const x = column.value(a);
+      const y = column.value(b);
+      if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+      const order = x < y ? -1 : x > y ? 1 : 0;
+      return sort.descending ? -order : order;
+    });
+  }, [summaries, search, statusFilter, sort]);
+
+  const pins = rows
+    .filter(summary => summary.site.location)
+    .map(summary => ({
+      id: summary.site.id,
+      name: summary.site.name,
+      longitude: summary.site.location.longitude,
+      latitude: summary.site.location.latitude,
+      status: statusOf(summary)
+    }));
+
+  const toggleSort = (key: SortKey) =>
+    setSort(prev => ({ key, descending: prev.key === key ? !prev.descending : key !== 'name' && key !== 'payback' }));
+
+  const openSite = (id: string) => {
+    setActiveSiteId(id);
+    navigate('/');
+  };
+
+  return (
+    <div className="min-h-screen p-4 lg:p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Layers className="w-6 h-6 text-primary" />
+            <h1 className="text-3xl font-bold">Site Portfolio</h1>
+            <Badge variant="secondary">{summaries.length} sites</Badge>
+          </div>
+          <Button asChild variant="outline" size="sm">
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to Dashboard
+            </Link>
+          </Button>
+        </div>
+
+        <Card className="glass-card p-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <MapPin className="w-5 h-5 text-primary" />
+            <h2 className="text-xl font-semibold">Site Locations</h2>
+          </div>
+          <div className="flex flex-wrap gap-3 text-sm">
+            {(Object.keys(STATUS_COLORS) as Array<keyof typeof STATUS_COLORS>).map(status => (
+              <div key={status} className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: STATUS_COLORS[status] }} />
+                {status === 'no-data' ? 'No data' : FEASIBILITY_STATUS_LABELS[status]}
+              </div>
+            ))}
+          </div>
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis
+                  type="number"
+                  dataKey="longitude"
+                  name="Longitude"
+                  unit="°"
+                  domain={['dataMin - 1', 'dataMax + 1']}
+                  tickFormatter={(value: number) => value.toFixed(1)}
+                  stroke="hsl(var(--muted-foreground))"
+                />
+                <YAxis
+                  type="number"
+                  dataKey="latitude"
+                  name="Latitude"
+                  unit="°"
+                  domain={['dataMin - 1', 'dataMax + 1']}
+                  tickFormatter={(value: number) => value.toFixed(1)}
+                  stroke="hsl(var(--muted-foreground))"
+                />
+                <Tooltip
+                  content={({ payload }) => {
+                    const pin = payload?.[0]?.payload as (typeof pins)[number] | undefined;
+                    if (!pin) return null;
+                    return (
+                      <div className="rounded-lg border bg-card p-2 text-sm">
+                        <p className="font-medium">{pin.name}</p>
+                        <p className="text-muted-foreground">
+                          {pin.latitude.toFixed(4)}, {pin.longitude.toFixed(4)} ·{' '}
+                          {pin.status === 'no-data' ? 'No data' : FEASIBILITY_STATUS_LABELS[pin.status]}
+                        </p>
+                      </div>
+                    );
+                  }}
+                />
+                <Scatter data={pins} className="cursor-pointer" onClick={(point) => openSite(point.payload.id)}>
+                  {pins.map((pin, i) => (
+                    <Cell key={i} fill={STATUS_COLORS[pin.status]} />
+                  ))}
+                </Scatter>
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+        </Card>
+
+        <Card className="glass-card p-6 space-y-4">
+          <div className="flex flex-wrap gap-3">
+            <Input
+              className="max-w-xs"
+              placeholder="Search by name, city or region"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {(Object.keys(FEASIBILITY_STATUS_LABELS) as FeasibilityStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{FEASIBILITY_STATUS_LABELS[status]}</SelectItem>
+                ))}
+                <SelectItem value="no-data">No data yet</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {COLUMNS.map(column => (
+                  <TableHead key={column.key}>
+                    <button className="flex items-center gap-1" onClick={() => toggleSort(column.key)}>
+                      {column.label}
+                      {sort.key === column.key && (sort.descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                    </button>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(summary => {
+                const { site, feasibility } = summary;
+                return (
+                  <TableRow key={site.id} className="cursor-pointer" onClick={() => openSite(site.id)}>
+                    <TableCell>
+                      <p className="font-medium">{site.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {site.location ? `${site.location.city}, ${site.location.region}` : 'No location'}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      {feasibility ? (
+                        <div className="flex items-center gap-2">
+                          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: STATUS_COLORS[feasibility.status] }} />
+                          {feasibility.score}/100
+                        </div>
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell>{formatNumber(summary.solarAverage)}</TableCell>
+                    <TableCell>{formatNumber(summary.windAverage)}</TableCell>
+                    <TableCell>
+                      {summary.recommendedPv === null
+                        ? '—'
+                        : `${summary.sizingEstimated ? '≈ ' : ''}${summary.recommendedPv.toFixed(1)} kWp + ` +
+                          `${summary.recommendedBattery.toFixed(0)} kWh`}
+                    </TableCell>
+                    <TableCell>{formatNumber(summary.payback, 1, ' yrs')}</TableCell>
+                    <TableCell>{formatNumber(summary.co2Savings, 2, ' t/yr')}</TableCell>
+                  </TableRow>
+                );
+              })}
+              {rows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={COLUMNS.length} className="text-center text-muted-foreground">
+                    {loading ? 'Loading sites...' : 'No sites match these filters'}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-muted-foreground">
+            Recommended systems come from each site's last sizing search; ≈ marks a rough estimate from the daily load
+            for sites that haven't run one.
+          </p>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default SitePortfolio;
@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Scale } from 'lucide-react';
+import {
+  CartesianGrid, Legend, ReferenceLine, ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis, ZAxis
+} from 'recharts';
+import type { Appliance, MeasuredLoad } from '@/types/energy';
+import type { HourlyResource, SystemConfig } from '@/lib/simulation';
+import type { CapitalCosts } from '@/lib/capital-costs';
+import { DEFAULT_TARGET_LOLP, optimiseSizing, type SizingCandidate, type SizingResult } from '@/lib/sizing';
+
+interface SystemSizingOptimizerProps {
+  latitude: number;
+  resource: HourlyResource[];
+  appliances: Appliance[];
+  measuredLoad?: MeasuredLoad | null;
+  system: SystemConfig;
+  costs: CapitalCosts;
+  onCostsChange: (costs: CapitalCosts) => void;
+  result: SizingResult | null;
+  onResult: (result: SizingResult) => void;
+  onApply: (candidate: SizingCandidate) => void;
+}
+
+const COST_FIELDS: { key: keyof CapitalCosts; label: string }[] = [
+  { key: 'pvCost', label: 'PV (₹/kWp)' },
+  { key: 'windCost', label: 'Wind (₹/kW)' },
+  { key: 'batteryCost', label: 'Battery (₹/kWh)' },
+  { key: 'inverterCost', label: 'Inverter (₹/kW)' },
+  { key: 'balanceOfSystem', label: 'Balance of system (₹)' }
+];
+
+const tooltipStyle = {
+  backgroundColor: 'hsl(var(--card))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '8px'
+};
+
+const describe = (candidate: SizingCandidate) =>
+  `${candidate.pvCapacity.toFixed(1)} kWp PV · ${candidate.turbines} turbine${candidate.turbines === 1 ? '' : 's'} · ` +
+  `${candidate.battery} kWh battery`;
+
+const toPoint = (candidate: SizingCandidate) => ({
+  ...candidate,
+  reliability: (1 - candidate.lolp) * 100,
+  lakh: candidate.cost / 100000
+});
+
+const SizingTooltip = ({ active, payload }: { active?: boolean; payload?: { payload: SizingCandidate }[] }) => {
+  const candidate = active ? payload?.[0]?.payload : undefined;
+  if (!candidate) return null;
+  return (
+    <div className="p-2 text-sm" style={tooltipStyle}>
+      <p className="font-medium">{describe(candidate)}</p>
+      <p>₹{candidate.cost.toLocaleString('en-IN', { maximumFractionDigits: 0 })}</p>
+      <p>Loss of load {(candidate.lolp * 100).toFixed(1)}% of hours · {candidate.unserved.toFixed(2)} kWh/day</p>
+    </div>
+  );
+};
+
+const SystemSizingOptimizer = ({
+  latitude, resource, appliances, measuredLoad, system, costs, onCostsChange, result, onResult, onApply
+}: SystemSizingOptimizerProps) => {
+  const [targetPercent, setTargetPercent] = useState(DEFAULT_TARGET_LOLP * 100);
+  const [running, setRunning] = useState(false);
+
+  const run = () => {
+    setRunning(true);
+    // Yield first so the button shows its busy state while a year of dispatch runs
+    setTimeout(() => {
+      onResult(optimiseSizing({
+        latitude,
+        resource,
+        appliances,
+        measuredLoad,
+        system,
+        costs,
+        targetLolp: Math.min(100, Math.max(0, targetPercent)) / 100
+      }));
+      setRunning(false);
+    }, 0);
+  };
+
+  const recommended = result?.recommended;
+
+  return (
+    <Card className="glass-card p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Scale className="w-5 h-5 text-energy-battery" />
+          <h3 className="text-xl font-semibold">System Sizing</h3>
+        </div>
+        <Button size="sm" onClick={run} disabled={running || resource.length === 0}>
+          {running ? 'Simulating…' : 'Find Least-Cost System'}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {COST_FIELDS.map(field => (
+          <div key={field.key} className="space-y-1">
+            <label className="text-sm font-medium">{field.label}</label>
+            <Input
+              type="number"
+              min={0}
+              value={costs[field.key]}
+              onChange={(e) => onCostsChange({ ...costs, [field.key]: Number(e.target.value) })}
+            />
+          </div>
+        ))}
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Target loss of load (% of hours)</label>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            step={0.5}
+            value={targetPercent}
+            onChange={(e) => setTargetPercent(Number(e.target.value))}
+          />
+        </div>
+      </div>
+
+      {resource.length === 0 && (
+        <p className="text-sm text-muted-foreground">Fetch resource data for the site to size a system against it.</p>
+      )}
+
+      {result && (
+        <>
+          {recommended ? (
+            <div className="flex flex-wrap items-center justify-between gap-3 p-4 rounded-lg bg-energy-battery/10 border border-energy-battery/20">
+              <div>
+                <p className="font-medium">{describe(recommended)}</p>
+                <p className="text-sm text-muted-foreground">
+                  ₹{recommended.cost.toLocaleString('en-IN', { maximumFractionDigits: 0 })} · load lost in
+                  {' '}{(recommended.lolp * 100).toFixed(1)}% of hours ({recommended.unserved.toFixed(2)} kWh/day)
+                </p>
+              </div>
+              <Button size="sm" onClick={() => onApply(recommended)}>Apply Sizing</Button>
+            </div>
+          ) : (
+            <p className="text-sm text-destructive">
+              No system in the search range keeps loss of load under {(result.targetLolp * 100).toFixed(1)}% of hours.
+            </p>
+          )}
+
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ bottom: 8 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis
+                  type="number"
+                  dataKey="lakh"
+                  name="Cost"
+                  stroke="hsl(var(--muted-foreground))"
+                  tickFormatter={(value: number) => `₹${value.toFixed(1)}`}
+                />
+                <YAxis
+                  type="number"
+                  dataKey="reliability"
+                  name="Reliability"
+                  unit="%"
+                  stroke="hsl(var(--muted-foreground))"
+                  domain={['dataMin', 100]}
+                  tickFormatter={(value: number) => value.toFixed(0)}
+                />
+                <ZAxis range={[40, 40]} />
+                <ZAxis zAxisId="highlight" range={[200, 200]} />
+                <Tooltip content={<SizingTooltip />} />
+                <Legend />
+                <ReferenceLine
+                  y={(1 - result.targetLolp) * 100}
+                  stroke="hsl(var(--destructive))"
+                  strokeDasharray="4 2"
+                  label={{ value: 'Target', position: 'insideBottomRight', fill: 'hsl(var(--destructive))', fontSize: 12 }}
+                />
+                <Scatter name="Simulated" data={result.candidates.map(toPoint)} fill="hsl(var(--muted-foreground))" fillOpacity={0.4} />
+                <Scatter
+                  name="Pareto frontier"
+                  data={result.frontier.map(toPoint)}
+                  fill="hsl(var(--battery))"
+                  line={{ stroke: 'hsl(var(--battery))' }}
+                />
+                {recommended && (
+                  <Scatter
+                    name="Recommended"
+                    data={[toPoint(recommended)]}
+                    zAxisId="highlight"
+                    fill="hsl(var(--solar))"
+                    shape="star"
+                    legendType="star"
+                  />
+                )}
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Each point is an islanded simulation over {result.dailyLoad.toFixed(1)} kWh/day of load; costs in lakh rupees.
+            Reliability is the share of hours with no load shed or unmet.
+          </p>
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default SystemSizingOptimizer;
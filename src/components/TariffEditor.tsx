@@ -0,0 +1,260 @@
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Receipt, Trash2 } from 'lucide-react';
+import type { ExportMode, TariffSettings, TariffSlab, TimeOfDayBand } from '@/types/energy';
+import {
+  EXPORT_MODE_LABELS, TARIFF_PRESETS, monthlyBill, type TariffComparison, type TariffPresetId
+} from '@/lib/tariff';
+
+interface TariffEditorProps {
+  tariff: TariffSettings;
+  onChange: (tariff: TariffSettings) => void;
+  comparison: TariffComparison;
+}
+
+const CUSTOM = 'custom';
+
+const rupees = (value: number) => `₹${Math.round(value).toLocaleString('en-IN')}`;
+
+const BILL_LINES: { key: 'energy' | 'timeOfDay' | 'demand' | 'fixed' | 'exportCredit'; label: string; sign: number }[] = [
+  { key: 'energy', label: 'Energy charge', sign: 1 },
+  { key: 'timeOfDay', label: 'Time-of-day adjustment', sign: 1 },
+  { key: 'demand', label: 'Demand charge', sign: 1 },
+  { key: 'fixed', label: 'Fixed charge', sign: 1 },
+  { key: 'exportCredit', label: 'Export credit', sign: -1 }
+];
+
+const TariffEditor = ({ tariff, onChange, comparison }: TariffEditorProps) => {
+  const slabs = tariff.slabs ?? [];
+  const bands = tariff.timeOfDay ?? [];
+  // Any edit turns a preset into a custom tariff
+  const update = (changes: Partial<TariffSettings>) => onChange({ ...tariff, ...changes, preset: CUSTOM });
+
+  const updateSlab = (index: number, changes: Partial<TariffSlab>) =>
+    update({ slabs: slabs.map((slab, i) => (i === index ? { ...slab, ...changes } : slab)) });
+  const addSlab = () => {
+    const last = slabs[slabs.length - 1];
+    const previous = slabs.slice(0, -1).map(slab => slab.upTo ?? 0);
+    const bound = Math.max(100, ...previous) + 100;
+    update({
+      slabs: last
+        ? [...slabs.slice(0, -1), { ...last, upTo: bound }, { upTo: null, rate: last.rate }]
+        : [{ upTo: null, rate: tariff.gridCost }]
+    });
+  };
+  // The last slab always stays open-ended
+  const removeSlab = (index: number) => {
+    const remaining = slabs.filter((_, i) => i !== index);
+    update({ slabs: remaining.map((slab, i) => (i === remaining.length - 1 ? { ...slab, upTo: null } : slab)) });
+  };
+
+  const updateBand = (index: number, changes: Partial<TimeOfDayBand>) =>
+    update({ timeOfDay: bands.map((band, i) => (i === index ? { ...band, ...changes } : band)) });
+
+  const without = monthlyBill(comparison.without);
+  const withSystem = monthlyBill(comparison.withSystem);
+
+  return (
+    <Card className="glass-card p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Receipt className="w-5 h-5 text-energy-grid" />
+          <h3 className="text-xl font-semibold">Grid Tariff</h3>
+        </div>
+        <Select
+          value={tariff.preset && tariff.preset in TARIFF_PRESETS ? tariff.preset : CUSTOM}
+          onValueChange={(value) => {
+            if (value !== CUSTOM) onChange(TARIFF_PRESETS[value as TariffPresetId].tariff);
+          }}
+        >
+          <SelectTrigger className="w-72">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(TARIFF_PRESETS) as TariffPresetId[]).map(id => (
+              <SelectItem key={id} value={id}>{TARIFF_PRESETS[id].label}</SelectItem>
+            ))}
+            <SelectItem value={CUSTOM}>Custom</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-6">
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <label className="text-sm font-medium">{slabs.length > 0 ? 'Reference rate (₹/kWh)' : 'Energy rate (₹/kWh)'}</label>
+            <Input
+              type="number"
+              step="0.1"
+              value={tariff.gridCost}
+              onChange={(e) => update({ gridCost: Number(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Fixed charge (₹/month)</label>
+            <Input
+              type="number"
+              min={0}
+              value={tariff.fixedCharge ?? 0}
+              onChange={(e) => update({ fixedCharge: Number(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Demand charge (₹/kW/month)</label>
+            <Input
+              type="number"
+              min={0}
+              value={tariff.demandCharge ?? 0}
+              onChange={(e) => update({ demandCharge: Number(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Export</label>
+            <Select value={tariff.exportMode ?? 'none'} onValueChange={(value) => update({ exportMode: value as ExportMode })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(EXPORT_MODE_LABELS) as ExportMode[]).map(mode => (
+                  <SelectItem key={mode} value={mode}>{EXPORT_MODE_LABELS[mode]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {(tariff.exportMode ?? 'none') !== 'none' && (
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Export rate (₹/kWh)</label>
+              <Input
+                type="number"
+                step="0.1"
+                min={0}
+                value={tariff.exportRate ?? 0}
+                onChange={(e) => update({ exportRate: Number(e.target.value) })}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="font-semibold">Slabs (kWh/month)</h4>
+              <Button size="sm" variant="outline" onClick={addSlab}>
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+            {slabs.length === 0 && <p className="text-sm text-muted-foreground">Flat energy rate</p>}
+            {slabs.map((slab, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="and above"
+                  disabled={slab.upTo === null}
+                  value={slab.upTo ?? ''}
+                  onChange={(e) => updateSlab(index, { upTo: Number(e.target.value) })}
+                />
+                <Input
+                  type="number"
+                  step="0.05"
+                  min={0}
+                  value={slab.rate}
+                  onChange={(e) => updateSlab(index, { rate: Number(e.target.value) })}
+                />
+                <Button size="icon" variant="ghost" onClick={() => removeSlab(index)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="font-semibold">Time-of-day bands</h4>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => update({ timeOfDay: [...bands, { start: 18, end: 22, multiplier: 1.2 }] })}
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+            {bands.length === 0 && <p className="text-sm text-muted-foreground">Same rate at every hour</p>}
+            {bands.map((band, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  max={24}
+                  value={band.start}
+                  onChange={(e) => updateBand(index, { start: Number(e.target.value) })}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  max={24}
+                  value={band.end}
+                  onChange={(e) => updateBand(index, { end: Number(e.target.value) })}
+                />
+                <Input
+                  type="number"
+                  step="0.05"
+                  min={0}
+                  value={band.multiplier}
+                  onChange={(e) => updateBand(index, { multiplier: Number(e.target.value) })}
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => update({ timeOfDay: bands.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            {bands.length > 0 && (
+              <p className="text-xs text-muted-foreground">Start hour, end hour and rate multiplier; the first matching band applies.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-semibold">Average Monthly Bill</h4>
+          <div className="grid grid-cols-3 gap-2 text-sm">
+            <span />
+            <span className="text-right text-muted-foreground">Grid only</span>
+            <span className="text-right text-muted-foreground">With system</span>
+            {BILL_LINES.map(line => (
+              <div key={line.key} className="contents">
+                <span className="text-muted-foreground">{line.label}</span>
+                <span className="text-right">{rupees(line.sign * without[line.key])}</span>
+                <span className="text-right">{rupees(line.sign * withSystem[line.key])}</span>
+              </div>
+            ))}
+            <span className="font-semibold">Total</span>
+            <span className="text-right font-semibold">{rupees(without.total)}</span>
+            <span className="text-right font-semibold">{rupees(withSystem.total)}</span>
+            <span className="text-muted-foreground">Import / export</span>
+            <span className="text-right">{without.imported.toFixed(0)} kWh</span>
+            <span className="text-right">{withSystem.imported.toFixed(0)} / {withSystem.exported.toFixed(0)} kWh</span>
+          </div>
+          <p className="text-sm">
+            Saves <span className="font-semibold text-energy-battery">{rupees(comparison.annualSavings)}</span> a year,
+            billed hour by hour from the simulation.
+          </p>
+          {comparison.unserved > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {(comparison.unserved / Math.max(1, comparison.without.days)).toFixed(1)} kWh/day the system shed or
+              could not supply is left out of both bills.
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">Presets are indicative; check the current state tariff order.</p>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default TariffEditor;
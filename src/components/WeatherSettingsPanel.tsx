@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FORECAST_PROVIDERS, type ForecastProviderId, type WeatherSettings } from '@/lib/weather-forecast';
+
+interface WeatherSettingsPanelProps {
+  settings: WeatherSettings;
+  loading: boolean;
+  onSave: (settings: WeatherSettings) => void;
+}
+
+const WeatherSettingsPanel = ({ settings, loading, onSave }: WeatherSettingsPanelProps) => {
+  // Edited locally so a half-typed key is not sent to the provider
+  const [draft, setDraft] = useState(settings);
+  const { needsKey } = FORECAST_PROVIDERS[draft.provider];
+  const changed = draft.provider !== settings.provider || draft.apiKey !== settings.apiKey;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm font-medium">Forecast</span>
+      <Select
+        value={draft.provider}
+        onValueChange={(value) => setDraft(prev => ({ ...prev, provider: value as ForecastProviderId }))}
+      >
+        <SelectTrigger className="w-56">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(FORECAST_PROVIDERS) as ForecastProviderId[]).map(id => (
+            <SelectItem key={id} value={id}>{FORECAST_PROVIDERS[id].label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {needsKey && (
+        <Input
+          type="password"
+          className="w-64"
+          placeholder="API key"
+          value={draft.apiKey}
+          onChange={(e) => setDraft(prev => ({ ...prev, apiKey: e.target.value }))}
+        />
+      )}
+      <Button size="sm" onClick={() => onSave(draft)} disabled={loading || !changed}>
+        Save
+      </Button>
+    </div>
+  );
+};
+
+export default WeatherSettingsPanel;
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Wind } from 'lucide-react';
+import {
+  TURBINE_PRESETS, TERRAIN_ROUGHNESS, customTurbine, parsePowerCurve, formatPowerCurve,
+  hubHeightSpeed, windFarmCapacity,
+  type WindTurbineConfig, type ShearModel, type TerrainRoughness
+} from '@/lib/wind';
+
+interface WindTurbineSettingsProps {
+  config: WindTurbineConfig;
+  averageWindSpeed: number; // m/s at 10m
+  onChange: (config: WindTurbineConfig) => void;
+}
+
+const WindTurbineSettings = ({ config, averageWindSpeed, onChange }: WindTurbineSettingsProps) => {
+  const [curveText, setCurveText] = useState(formatPowerCurve(config.turbine.curve));
+  const hubSpeed = hubHeightSpeed(averageWindSpeed, config.hubHeight, config.shear, config.roughness);
+
+  const selectTurbine = (id: string) => {
+    const turbine = id === 'custom'
+      ? customTurbine(config.turbine.curve, config.turbine.cutOut)
+      : TURBINE_PRESETS.find(preset => preset.id === id) ?? config.turbine;
+    setCurveText(formatPowerCurve(turbine.curve));
+    onChange({ ...config, turbine });
+  };
+
+  const applyCustomCurve = () => {
+    const turbine = customTurbine(parsePowerCurve(curveText), config.turbine.cutOut);
+    setCurveText(formatPowerCurve(turbine.curve));
+    onChange({ ...config, turbine });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Wind className="w-4 h-4 text-energy-wind" />
+          <h4 className="font-semibold">Wind Turbines</h4>
+        </div>
+        <div className="flex gap-2">
+          <Badge variant="secondary">{windFarmCapacity(config).toFixed(1)} kW</Badge>
+          <Badge variant="outline">{hubSpeed.toFixed(1)} m/s at hub</Badge>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="col-span-2">
+          <label className="text-xs font-medium text-muted-foreground">Turbine Model</label>
+          <Select value={config.turbine.id} onValueChange={selectTurbine}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TURBINE_PRESETS.map(preset => (
+                <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+              ))}
+              <SelectItem value="custom">Custom power curve</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="text-xs font-medium text-muted-foreground">Turbine Count</label>
+          <Input
+            type="number"
+            min="0"
+            value={config.count}
+            onChange={(e) => onChange({ ...config, count: Number(e.target.value) })}
+          />
+        </div>
+        <div>
+          <label className="text-xs font-medium text-muted-foreground">Hub Height (m)</label>
+          <Input
+            type="number"
+            min="1"
+            value={config.hubHeight}
+            onChange={(e) => onChange({ ...config, hubHeight: Number(e.target.value) })}
+          />
+        </div>
+        <div>
+          <label className="text-xs font-medium text-muted-foreground">Shear Model</label>
+          <Select value={config.shear} onValueChange={(shear) => onChange({ ...config, shear: shear as ShearModel })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="power">Power law</SelectItem>
+              <SelectItem value="log">Log law</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="col-span-2">
+          <label className="text-xs font-medium text-muted-foreground">Terrain Roughness</label>
+          <Select
+            value={config.roughness}
+            onValueChange={(roughness) => onChange({ ...config, roughness: roughness as TerrainRoughness })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TERRAIN_ROUGHNESS).map(([key, terrain]) => (
+                <SelectItem key={key} value={key}>{terrain.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="text-xs font-medium text-muted-foreground">Losses (%)</label>
+          <Input
+            type="number"
+            step="0.5"
+            value={Number((config.losses * 100).toFixed(2))}
+            onChange={(e) => onChange({ ...config, losses: Number(e.target.value) / 100 })}
+          />
+        </div>
+      </div>
+
+      {config.turbine.id === 'custom' && (
+        <div>
+          <label className="text-xs font-medium text-muted-foreground">Power Curve (m/s:kW pairs)</label>
+          <Input
+            value={curveText}
+            onChange={(e) => setCurveText(e.target.value)}
+            onBlur={applyCustomCurve}
+            placeholder="e.g., 3:0, 6:0.8, 9:2.2, 12:3"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WindTurbineSettings;
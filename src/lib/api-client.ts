@@ -0,0 +1,82 @@
+import type { ZodError, ZodType, ZodTypeDef } from 'zod';
+
+export type ApiErrorCategory = 'network' | 'schema' | 'fill-value' | 'rate-limit' | 'input';
+
+export const API_ERROR_LABELS: Record<ApiErrorCategory, string> = {
+  network: 'Service unavailable',
+  schema: 'Unexpected response',
+  'fill-value': 'Missing values',
+  'rate-limit': 'Rate limited',
+  input: 'Input needed'
+};
+
+// A problem with data from a third-party service, phrased for the user
+export interface DataIssue {
+  category: ApiErrorCategory;
+  service: string; // e.g. 'NASA POWER'
+  message: string;
+}
+
+export type ApiError = Error & DataIssue;
+
+export const apiError = (category: ApiErrorCategory, service: string, message: string): ApiError =>
+  Object.assign(new Error(message), { name: 'ApiError', category, service });
+
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof Error && 'category' in error && 'service' in error;
+
+// Anything thrown while talking to a service, as an issue the UI can list.
+// Errors that never reached the validation step are network failures.
+export const toDataIssue = (error: unknown, service: string): DataIssue =>
+  isApiError(error)
+    ? { category: error.category, service: error.service, message: error.message }
+    : { category: 'network', service, message: error instanceof Error ? error.message : String(error) };
+
+// First few problems zod found, e.g. "properties.parameter: Required"
+const describeSchemaError = (error: ZodError) =>
+  error.issues
+    .slice(0, 3)
+    .map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+
+interface FetchJsonOptions {
+  // Some services answer 200 with an error body when throttling
+  isRateLimited?: (body: unknown) => boolean;
+}
+
+// Fetches a JSON document and checks it against the schema, so callers only
+// ever see well-formed data or an ApiError saying what went wrong.
+export const fetchJson = async <T>(
+  url: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  service: string,
+  { isRateLimited }: FetchJsonOptions = {}
+): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw apiError('network', service, `${service} is unreachable`);
+  }
+
+  if (response.status === 429) {
+    const retryAfter = response.headers.get('Retry-After');
+    throw apiError('rate-limit', service, `${service} is rate limiting requests; try again ${
+      retryAfter ? `in ${retryAfter} s` : 'later'
+    }`);
+  }
+  if (response.status === 401 || response.status === 403) {
+    throw apiError('network', service, `${service} rejected the request (status ${response.status}); check the API key`);
+  }
+  if (!response.ok) throw apiError('network', service, `${service} request failed with status ${response.status}`);
+
+  const body: unknown = await response.json().catch(() => undefined);
+  if (body === undefined) throw apiError('schema', service, `${service} did not return JSON`);
+  if (isRateLimited?.(body)) throw apiError('rate-limit', service, `${service} is rate limiting requests; try again later`);
+
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw apiError('schema', service, `${service} returned data in an unexpected shape (${describeSchemaError(result.error)})`);
+  }
+  return result.data;
+};
@@ -0,0 +1,132 @@
+export type BatteryChemistry = 'lead-acid' | 'lfp' | 'nmc';
+
+export interface BatterySpec {
+  chemistry: BatteryChemistry;
+  roundTripEfficiency: number; // fraction
+  maxChargeRate: number; // C-rate
+  maxDischargeRate: number; // C-rate
+  depthOfDischarge: number; // usable fraction of capacity
+  selfDischarge: number; // fraction of stored energy lost per month
+  cycleLife: number; // equivalent full cycles at rated depth of discharge
+  endOfLifeCapacity: number; // remaining capacity fraction after cycleLife cycles
+}
+
+export interface BatteryCondition {
+  stored: number; // kWh
+  throughput: number; // kWh discharged to date
+}
+
+export const BATTERY_CHEMISTRY_LABELS: Record<BatteryChemistry, string> = {
+  'lead-acid': 'Lead-acid (flooded/VRLA)',
+  lfp: 'Lithium iron phosphate (LFP)',
+  nmc: 'Lithium NMC'
+};
+
+export const BATTERY_PRESETS: Record<BatteryChemistry, BatterySpec> = {
+  'lead-acid': {
+    chemistry: 'lead-acid',
+    roundTripEfficiency: 0.8,
+    maxChargeRate: 0.2,
+    maxDischargeRate: 0.5,
+    depthOfDischarge: 0.5,
+    selfDischarge: 0.04,
+    cycleLife: 1200,
+    endOfLifeCapacity: 0.8
+  },
+  lfp: {
+    chemistry: 'lfp',
+    roundTripEfficiency: 0.95,
+    maxChargeRate: 0.5,
+    maxDischargeRate: 1,
+    depthOfDischarge: 0.9,
+    selfDischarge: 0.02,
+    cycleLife: 6000,
+    endOfLifeCapacity: 0.8
+  },
+  nmc: {
+    chemistry: 'nmc',
+    roundTripEfficiency: 0.92,
+    maxChargeRate: 0.7,
+    maxDischargeRate: 1,
+    depthOfDischarge: 0.85,
+    selfDischarge: 0.03,
+    cycleLife: 3000,
+    endOfLifeCapacity: 0.8
+  }
+};
+
+export const DEFAULT_BATTERY_SPEC = BATTERY_PRESETS.lfp;
+
+const HOURS_PER_MONTH = 730;
+
+// Charge and discharge losses are split evenly across the round trip
+const legEfficiency = (spec: BatterySpec) => Math.sqrt(Math.max(0, spec.roundTripEfficiency));
+
+export const equivalentCycles = (spec: BatterySpec, capacity: number, throughput: number) => {
+  const usable = capacity * spec.depthOfDischarge;
+  return usable > 0 ? throughput / usable : 0;
+};
+
+// Remaining capacity fraction, fading linearly with equivalent full cycles.
+export const stateOfHealth = (spec: BatterySpec, capacity: number, throughput: number) => {
+  const cycles = equivalentCycles(spec, capacity, throughput);
+  const fade = spec.cycleLife > 0 ? (1 - spec.endOfLifeCapacity) * cycles / spec.cycleLife : 0;
+  return Math.max(0, 1 - fade);
+};
+
+export const effectiveCapacity = (spec: BatterySpec, capacity: number, throughput = 0) =>
+  capacity * stateOfHealth(spec, capacity, throughput);
+
+// Lowest state of charge (kWh) the battery may be discharged to.
+export const reserveFloor = (spec: BatterySpec, capacity: number, throughput = 0) =>
+  effectiveCapacity(spec, capacity, throughput) * (1 - spec.depthOfDischarge);
+
+export const maxChargePower = (spec: BatterySpec, capacity: number) => capacity * spec.maxChargeRate;
+
+export const maxDischargePower = (spec: BatterySpec, capacity: number) => capacity * spec.maxDischargeRate;
+
+// Energy the battery can still deliver to the load above its reserve floor.
+export const deliverableEnergy = (spec: BatterySpec, capacity: number, stored: number, throughput = 0) =>
+  Math.max(0, stored - reserveFloor(spec, capacity, throughput)) * legEfficiency(spec);
+
+// Charges from `energy` kWh of surplus over `hours`, limited by C-rate and
+// headroom. Returns the energy drawn from the bus.
+export const chargeBattery = (
+  spec: BatterySpec,
+  capacity: number,
+  condition: BatteryCondition,
+  energy: number,
+  hours = 1
+) => {
+  const efficiency = legEfficiency(spec);
+  const headroom = Math.max(0, effectiveCapacity(spec, capacity, condition.throughput) - condition.stored);
+  const drawn = Math.max(0, Math.min(energy, maxChargePower(spec, capacity) * hours, efficiency > 0 ? headroom / efficiency : 0));
+  condition.stored += drawn * efficiency;
+  return drawn;
+};
+
+// Discharges to cover `demand` kWh over `hours`, limited by C-rate and the
+// depth-of-discharge floor. Returns the energy delivered to the load.
+export const dischargeBattery = (
+  spec: BatterySpec,
+  capacity: number,
+  condition: BatteryCondition,
+  demand: number,
+  hours = 1
+) => {
+  const efficiency = legEfficiency(spec);
+  const delivered = Math.max(0, Math.min(
+    demand,
+    maxDischargePower(spec, capacity) * hours,
+    deliverableEnergy(spec, capacity, condition.stored, condition.throughput)
+  ));
+  if (efficiency > 0) condition.stored -= delivered / efficiency;
+  condition.throughput += delivered;
+  return delivered;
+};
+
+export const applySelfDischarge = (spec: BatterySpec, condition: BatteryCondition, hours = 1) => {
+  const lost = condition.stored * (1 - (1 - spec.selfDischarge) ** (hours / HOURS_PER_MONTH));
+  condition.stored -= lost;
+  return lost;
+};
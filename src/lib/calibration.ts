@@ -0,0 +1,82 @@
+import type { DailyValue, EnergyData, ResourceSeries } from '@/types/energy';
+import type { HourlySeries } from '@/lib/hourly-series';
+import type { MonthlyClimatology } from '@/lib/climatology';
+
+export interface CalibrationFactors {
+  solar: number; // multiplier on irradiation
+  wind: number; // multiplier on wind speed
+  temperature: number; // °C added
+  days: number; // days the factors were fitted on
+  overlapping: boolean; // false when fitted on period means because the dates never meet
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+const ratio = (measured: number, reference: number) => (reference > 0 && measured > 0 ? measured / reference : 1);
+
+// Correction that brings the reference data to the level a site logger
+// measured, fitted on the days both cover. A logger that ran in another
+// period is compared on its whole-period means instead.
+export const calibrationFactors = (reference: EnergyData, measured: EnergyData): CalibrationFactors => {
+  // Interpolated reference days are not something the logger can be compared to
+  const byDate = (daily: DailyValue[]) => new Map(daily.filter(d => !d.imputed).map(d => [d.date, d.value]));
+  const referenceDays = {
+    solar: byDate(reference.solar.daily),
+    wind: byDate(reference.wind.daily),
+    temperature: byDate(reference.temperature)
+  };
+  const shared = measured.solar.daily.map(d => d.date).filter(date => referenceDays.solar.has(date));
+  const overlapping = shared.length > 0;
+
+  const pair = (measuredDaily: DailyValue[], referenceByDate: Map<string, number>, referenceDaily: DailyValue[]) => {
+    if (!overlapping) return [mean(measuredDaily.map(d => d.value)), mean(referenceDaily.map(d => d.value))];
+    const measuredByDate = byDate(measuredDaily);
+    const dates = shared.filter(date => measuredByDate.has(date) && referenceByDate.has(date));
+    return [mean(dates.map(date => measuredByDate.get(date))), mean(dates.map(date => referenceByDate.get(date)))];
+  };
+
+  const [solarMeasured, solarReference] = pair(measured.solar.daily, referenceDays.solar, reference.solar.daily);
+  const [windMeasured, windReference] = pair(measured.wind.daily, referenceDays.wind, reference.wind.daily);
+  const [temperatureMeasured, temperatureReference] = pair(
+    measured.temperature, referenceDays.temperature, reference.temperature
+  );
+
+  return {
+    solar: ratio(solarMeasured, solarReference),
+    wind: ratio(windMeasured, windReference),
+    temperature: temperatureMeasured - temperatureReference,
+    days: overlapping ? shared.length : measured.solar.daily.length,
+    overlapping
+  };
+};
+
+const scaleSeries = (series: ResourceSeries, factor: number): ResourceSeries => ({
+  current: series.current * factor,
+  average: series.average * factor,
+  peak: series.peak * factor,
+  data: series.data.map(d => ({ ...d, value: d.value * factor })),
+  daily: series.daily.map(d => ({ ...d, value: d.value * factor }))
+});
+
+export const calibrateEnergyData = (data: EnergyData, factors: CalibrationFactors): EnergyData => ({
+  solar: scaleSeries(data.solar, factors.solar),
+  wind: scaleSeries(data.wind, factors.wind),
+  temperature: data.temperature.map(d => ({ ...d, value: d.value + factors.temperature })),
+  quality: data.quality
+});
+
+export const calibrateHourly = (series: HourlySeries, factors: CalibrationFactors): HourlySeries => ({
+  ...series,
+  points: series.points.map(point => ({
+    ...point,
+    irradiance: point.irradiance * factors.solar,
+    windSpeed: point.windSpeed * factors.wind,
+    temperature: point.temperature + factors.temperature
+  }))
+});
+
+export const calibrateClimatology = (climatology: MonthlyClimatology, factors: CalibrationFactors): MonthlyClimatology => ({
+  solar: climatology.solar.map(value => value * factors.solar),
+  wind: climatology.wind.map(value => value * factors.wind),
+  temperature: climatology.temperature.map(value => value + factors.temperature)
+});
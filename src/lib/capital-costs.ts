@@ -0,0 +1,39 @@
+// Installed costs, shared by the sizing search and the lifecycle finance model
+export interface CapitalCosts {
+  pvCost: number; // ₹/kWp, modules and mounting
+  windCost: number; // ₹/kW rated, installed
+  batteryCost: number; // ₹/kWh nominal
+  inverterCost: number; // ₹/kW, sized to the PV array
+  balanceOfSystem: number; // ₹, wiring, protection and installation
+}
+
+export const DEFAULT_CAPITAL_COSTS: CapitalCosts = {
+  pvCost: 45000,
+  windCost: 120000,
+  batteryCost: 18000,
+  inverterCost: 8000,
+  balanceOfSystem: 25000
+};
+
+export interface CapacityInput {
+  pvCapacity: number; // kWp
+  windCapacity: number; // kW rated
+  batteryCapacity: number; // kWh
+}
+
+export interface CapexItem {
+  label: string;
+  cost: number; // ₹
+}
+
+// Up-front cost by component, leaving out anything the system doesn't have
+export const capex = (costs: CapitalCosts, { pvCapacity, windCapacity, batteryCapacity }: CapacityInput): CapexItem[] =>
+  [
+    { label: 'PV array', cost: pvCapacity * costs.pvCost },
+    { label: 'Wind turbines', cost: windCapacity * costs.windCost },
+    { label: 'Battery', cost: batteryCapacity * costs.batteryCost },
+    { label: 'Inverter', cost: pvCapacity * costs.inverterCost },
+    { label: 'Balance of system', cost: costs.balanceOfSystem }
+  ].filter(item => item.cost > 0);
+
+export const totalCapex = (items: CapexItem[]) => items.reduce((sum, item) => sum + item.cost, 0);
@@ -0,0 +1,84 @@
+import type { DailyValue, EnergyData, ResourceSeries } from '@/types/energy';
+import type { PowerPayload } from '@/lib/nasa-power';
+
+export type AnalysisMode = 'recent' | 'climatology';
+
+// Feasibility and costs are judged on a typical year unless the user asks otherwise
+export const DEFAULT_ANALYSIS_MODE: AnalysisMode = 'climatology';
+
+export const ANALYSIS_MODE_LABELS: Record<AnalysisMode, string> = {
+  recent: 'Last 30 days',
+  climatology: 'Typical year'
+};
+
+export const MONTH_KEYS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export interface MonthlyClimatology {
+  solar: number[]; // 12 long-term monthly means, kWh/m²/day
+  wind: number[]; // m/s at 10 m
+  temperature: number[]; // °C
+}
+
+export const CLIMATOLOGY_PARAMETERS = ['ALLSKY_SFC_SW_DWN', 'WS10M', 'T2M'];
+
+const monthly = (values: Record<string, number> = {}) => MONTH_KEYS.map(key => Number(values[key]) || 0);
+
+export const parseClimatology = (payload: PowerPayload): MonthlyClimatology => {
+  const { parameter } = payload.properties;
+  return {
+    solar: monthly(parameter.ALLSKY_SFC_SW_DWN),
+    wind: monthly(parameter.WS10M),
+    temperature: monthly(parameter.T2M)
+  };
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Every day of the year gets its month's long-term mean.
+const typicalDays = (year: number, means: number[]): DailyValue[] => {
+  const days: DailyValue[] = [];
+  means.forEach((value, month) => {
+    for (let day = 1; day <= daysInMonth(year, month); day++) {
+      days.push({ date: `${year}-${pad(month + 1)}-${pad(day)}`, value });
+    }
+  });
+  return days;
+};
+
+// Day-weighted annual mean of twelve monthly means.
+export const annualMean = (means: number[], year = new Date().getFullYear()) => {
+  const days = means.map((_, month) => daysInMonth(year, month));
+  const total = days.reduce((a, b) => a + b, 0);
+  return means.reduce((sum, value, month) => sum + value * days[month], 0) / total;
+};
+
+const typicalSeries = (means: number[], year: number, currentMonth: number): ResourceSeries => ({
+  current: means[currentMonth],
+  average: annualMean(means, year),
+  peak: Math.max(...means),
+  data: means.map((value, month) => ({ time: MONTH_LABELS[month], value })),
+  daily: typicalDays(year, means)
+});
+
+// A full calendar year built from the monthly means, so the dispatch model and
+// everything downstream of it report annualised results.
+export const typicalYear = (climatology: MonthlyClimatology, date = new Date()): EnergyData => {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  return {
+    solar: typicalSeries(climatology.solar, year, month),
+    wind: typicalSeries(climatology.wind, year, month),
+    temperature: typicalDays(year, climatology.temperature)
+  };
+};
+
+// The resource data the models should run on for the chosen mode; recent data
+// is used when no climatology has been fetched for the location yet.
+export const analysisEnergyData = (
+  mode: AnalysisMode,
+  recent: EnergyData | null,
+  climatology: MonthlyClimatology | null
+): EnergyData | null => (mode === 'climatology' && climatology ? typicalYear(climatology) : recent);
@@ -0,0 +1,148 @@
+import { fromLocalTime, localTime } from '@/lib/hourly-series';
+
+export const HOUR = 60 * 60 * 1000; // ms
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export type DateOrder = 'ymd' | 'dmy' | 'mdy';
+
+export interface Gap {
+  start: number; // UTC epoch ms of the first missing hour
+  hours: number;
+}
+
+export interface GapReport {
+  start: number; // first reading, UTC epoch ms
+  end: number; // last reading
+  expected: number; // hours between the first and last reading, inclusive
+  present: number;
+  completeness: number; // 0–1
+  gaps: Gap[]; // longest first
+}
+
+const DELIMITERS = [',', ';', '\t'];
+
+const splitRow = (line: string, delimiter: string) =>
+  line.split(delimiter).map(cell => cell.trim().replace(/^"|"$/g, ''));
+
+// Loggers export with commas, semicolons or tabs; the one splitting the header
+// into the most columns wins.
+export const readCsvTable = (text: string, skipLines = 0): CsvTable => {
+  const lines = text.split(/\r?\n/).slice(skipLines).filter(line => line.trim());
+  const [header = ''] = lines;
+  const delimiter = DELIMITERS.reduce((best, d) => (header.split(d).length > header.split(best).length ? d : best));
+  const [headers = [], ...rows] = lines.map(line => splitRow(line, delimiter));
+  return { headers, rows };
+};
+
+// Index of the first header matching any pattern, or -1.
+export const guessColumn = (headers: string[], patterns: RegExp[]) => {
+  for (const pattern of patterns) {
+    const index = headers.findIndex(header => pattern.test(header));
+    if (index >= 0) return index;
+  }
+  return -1;
+};
+
+// Numeric values of a column, skipping blanks and text.
+export const columnValues = (rows: string[][], column: number) =>
+  rows.map(row => (row[column] === '' ? NaN : Number(row[column]))).filter(Number.isFinite);
+
+const DATE_PATTERN = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})(?:[T ](\d{1,2})(?::(\d{2}))?(?::\d{2}(?:\.\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/;
+
+// Year-first dates are unambiguous; otherwise a first field above 12 means
+// day-first and a second field above 12 means month-first. Day-first is the
+// Indian default when nothing settles it.
+export const detectDateOrder = (stamps: string[]): DateOrder => {
+  let order: DateOrder = 'dmy';
+  for (const stamp of stamps) {
+    const match = stamp.match(DATE_PATTERN);
+    if (!match) continue;
+    if (match[1].length === 4) return 'ymd';
+    if (Number(match[1]) > 12) return 'dmy';
+    if (Number(match[2]) > 12) order = 'mdy';
+  }
+  return order;
+};
+
+// UTC epoch ms for a logger timestamp. Stamps without an offset are read as
+// wall-clock time in the site's zone; NaN when the stamp cannot be read.
+export const parseTimestamp = (stamp: string, order: DateOrder, timeZone: string) => {
+  const match = stamp.trim().match(DATE_PATTERN);
+  if (!match) return NaN;
+  const [, a, b, c, hour = '0', minute = '0', offset] = match;
+  const [year, month, day] = order === 'ymd' ? [a, b, c] : order === 'dmy' ? [c, b, a] : [c, a, b];
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const minutes = Number(minute) * 60 * 1000;
+  if (offset) {
+    const time = `${hour.padStart(2, '0')}:${minute}:00`;
+    return new Date(`${date}T${time}${offset === 'Z' ? 'Z' : offset.replace(/(\d{2})(\d{2})$/, '$1:$2')}`).getTime();
+  }
+  return fromLocalTime(date, Number(hour), timeZone) + minutes;
+};
+
+// Typical spacing between readings, ignoring duplicates and gaps.
+export const medianInterval = (timestamps: number[]) => {
+  const deltas = timestamps.slice(1).map((t, i) => t - timestamps[i]).filter(d => d > 0).sort((a, b) => a - b);
+  return deltas.length ? deltas[Math.floor(deltas.length / 2)] : HOUR;
+};
+
+// Buckets readings into whole UTC hours, which are whole site hours too for
+// zones with whole-hour offsets. Power-like values are averaged over the
+// hour, energy-like values summed.
+export const resampleHourly = <K extends string>(
+  readings: Array<{ timestamp: number } & Record<NoInfer<K>, number>>,
+  fields: Record<K, 'mean' | 'sum'>
+): Array<{ timestamp: number } & Record<K, number>> => {
+  const buckets = new Map<number, { count: number; totals: Record<string, number> }>();
+  readings.forEach(reading => {
+    const hour = Math.floor(reading.timestamp / HOUR) * HOUR;
+    const bucket = buckets.get(hour) ?? { count: 0, totals: {} };
+    bucket.count += 1;
+    (Object.keys(fields) as K[]).forEach(field => {
+      bucket.totals[field] = (bucket.totals[field] ?? 0) + reading[field];
+    });
+    buckets.set(hour, bucket);
+  });
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([timestamp, { count, totals }]) => {
+      const values = Object.fromEntries(
+        (Object.keys(fields) as K[]).map(field => [field, fields[field] === 'sum' ? totals[field] : totals[field] / count])
+      );
+      return { timestamp, ...values } as { timestamp: number } & Record<K, number>;
+    });
+};
+
+const MAX_REPORTED_GAPS = 5;
+
+// Missing hours between the first and last reading of an hourly series.
+export const gapReport = (timestamps: number[]): GapReport | null => {
+  if (timestamps.length === 0) return null;
+  const start = timestamps[0];
+  const end = timestamps[timestamps.length - 1];
+  const gaps: Gap[] = [];
+  timestamps.slice(1).forEach((t, i) => {
+    const missing = Math.round((t - timestamps[i]) / HOUR) - 1;
+    if (missing > 0) gaps.push({ start: timestamps[i] + HOUR, hours: missing });
+  });
+  const expected = Math.round((end - start) / HOUR) + 1;
+  return {
+    start,
+    end,
+    expected,
+    present: timestamps.length,
+    completeness: timestamps.length / expected,
+    gaps: gaps.sort((a, b) => b.hours - a.hours).slice(0, MAX_REPORTED_GAPS)
+  };
+};
+
+// "2024-03-04 13:00" in the site's zone, for reports.
+export const formatLocalHour = (timestamp: number, timeZone: string) => {
+  const { date, hour } = localTime(timestamp, timeZone);
+  return `${date} ${String(hour).padStart(2, '0')}:00`;
+};
@@ -0,0 +1,104 @@
+import type { DailyValue, EnergyData, ParameterQuality, ResourceSeries } from '@/types/energy';
+
+const DAY = 24 * 60 * 60 * 1000; // ms
+
+export type QualityParameter = 'solar' | 'wind' | 'temperature';
+
+export const QUALITY_PARAMETER_LABELS: Record<QualityParameter, string> = {
+  solar: 'Solar',
+  wind: 'Wind',
+  temperature: 'Temperature'
+};
+
+// Every date from start to end, inclusive, as YYYY-MM-DD.
+export const dateRange = (start: string, end: string) => {
+  const dates: string[] = [];
+  for (let t = Date.parse(`${start}T00:00Z`); t <= Date.parse(`${end}T00:00Z`); t += DAY) {
+    dates.push(new Date(t).toISOString().slice(0, 10));
+  }
+  return dates;
+};
+
+// Puts a daily series on the full calendar of the window and reports which
+// days have no observation. With interpolation on, gaps between two valid days
+// are filled linearly and flagged as imputed; gaps at either end of the window
+// stay missing, since there is nothing on one side to interpolate from.
+export const qualityPass = (daily: DailyValue[], start: string, end: string, interpolate = false) => {
+  const observed = new Map(daily.filter(d => Number.isFinite(d.value)).map(d => [d.date, d.value]));
+  const dates = dateRange(start, end);
+  const missing = dates.filter(date => !observed.has(date));
+
+  const filled: DailyValue[] = [];
+  let previous = -1; // index into dates of the last observation
+  dates.forEach((date, index) => {
+    if (!observed.has(date)) return;
+    if (interpolate && previous >= 0 && index - previous > 1) {
+      const from = observed.get(dates[previous]);
+      const to = observed.get(date);
+      for (let gap = previous + 1; gap < index; gap++) {
+        const weight = (gap - previous) / (index - previous);
+        filled.push({ date: dates[gap], value: from + (to - from) * weight, imputed: true });
+      }
+    }
+    filled.push({ date, value: observed.get(date) });
+    previous = index;
+  });
+
+  const imputed = filled.length - observed.size;
+  const lastValid = [...dates].reverse().find(date => observed.has(date)) ?? null;
+  const quality: ParameterQuality = {
+    expected: dates.length,
+    valid: dates.length - missing.length,
+    imputed,
+    completeness: dates.length ? (dates.length - missing.length) / dates.length : 0,
+    missing,
+    lastValid
+  };
+  return { daily: filled, quality };
+};
+
+const CHART_DAYS = 7;
+
+// Headline figures for a daily series. "Current" is the latest observation,
+// never an imputed day; averages and peaks include imputed days only when
+// interpolation put them there.
+export const resourceSeries = (daily: DailyValue[]): ResourceSeries => {
+  const values = daily.map(d => d.value);
+  const observed = daily.filter(d => !d.imputed);
+  return {
+    current: observed[observed.length - 1]?.value ?? 0,
+    average: values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0,
+    peak: values.length ? Math.max(...values) : 0,
+    data: daily.slice(-CHART_DAYS).map(d => ({
+      time: new Date(d.date).toLocaleDateString(undefined, { timeZone: 'UTC' }), // dates parse as UTC midnight
+      value: d.value,
+      ...(d.imputed && { imputed: true })
+    })),
+    daily
+  };
+};
+
+// Energy data for a window from three daily series, with their quality report.
+export const checkedEnergyData = (
+  { solar, wind, temperature }: Record<QualityParameter, DailyValue[]>,
+  start: string,
+  end: string,
+  interpolate = false
+): EnergyData => {
+  const checked = {
+    solar: qualityPass(solar, start, end, interpolate),
+    wind: qualityPass(wind, start, end, interpolate),
+    temperature: qualityPass(temperature, start, end, interpolate)
+  };
+  return {
+    solar: resourceSeries(checked.solar.daily),
+    wind: resourceSeries(checked.wind.daily),
+    temperature: checked.temperature.daily,
+    quality: {
+      solar: checked.solar.quality,
+      wind: checked.wind.quality,
+      temperature: checked.temperature.quality,
+      interpolated: interpolate
+    }
+  };
+};
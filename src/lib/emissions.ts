@@ -0,0 +1 @@
+export const GRID_EMISSION_FACTOR = 0.82; // kg CO₂/kWh, Indian grid average
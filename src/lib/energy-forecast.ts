@@ -0,0 +1,99 @@
+import type { Appliance, BatteryState, MeasuredLoad } from '@/types/energy';
+import { simulateDispatch, type DispatchStep, type SystemConfig } from '@/lib/simulation';
+import { reserveFloor } from '@/lib/battery';
+import { forecastResource, type ForecastHour } from '@/lib/weather-forecast';
+
+// Stored energy within this share of capacity above the floor counts as at the floor
+const FLOOR_TOLERANCE = 0.01;
+
+export interface ForecastStep extends DispatchStep {
+  cloudCover: number; // %
+  demand: number; // load before shedding, kWh
+  stateOfCharge: number; // % of nameplate capacity at the end of the hour
+  atFloor: boolean; // at the reserve floor, or shedding load to stay above it
+  shortfall: number; // shed, unmet and grid-imported energy, kWh
+}
+
+// A run of consecutive hours with the battery at its floor
+export interface FloorWindow {
+  start: string; // YYYY-MM-DDTHH:00, site local time
+  end: string; // last hour in the run
+  hours: number;
+  shortfall: number; // kWh not served by the site's own generation and storage
+}
+
+export interface EnergyForecast {
+  steps: ForecastStep[];
+  floor: number; // % of nameplate capacity
+  windows: FloorWindow[];
+  solar: number; // kWh over the forecast
+  wind: number;
+  demand: number;
+  shortfall: number;
+}
+
+export interface EnergyForecastInput {
+  hours: ForecastHour[];
+  latitude: number;
+  longitude: number;
+  timeZone: string;
+  appliances: Appliance[];
+  measuredLoad?: MeasuredLoad | null;
+  battery: Pick<BatteryState, 'capacity' | 'currentCharge'>;
+  system: SystemConfig;
+}
+
+const sum = (steps: ForecastStep[], select: (step: ForecastStep) => number) =>
+  steps.reduce((total, step) => total + select(step), 0);
+
+// Runs the forecast weather through the PV, wind and dispatch models from the
+// battery's present charge, and finds the hours it is expected to sit at its
+// floor with the load no longer covered by the site.
+export const forecastEnergy = ({
+  hours, latitude, longitude, timeZone, appliances, measuredLoad = null, battery, system
+}: EnergyForecastInput): EnergyForecast => {
+  const { steps: dispatchSteps } = simulateDispatch({
+    latitude,
+    resource: forecastResource(hours, latitude, longitude, timeZone),
+    appliances,
+    measuredLoad,
+    battery,
+    system
+  });
+
+  const capacity = Math.max(0, battery.capacity);
+  const floor = reserveFloor(system.battery, capacity);
+  const steps: ForecastStep[] = dispatchSteps.map((step, i) => ({
+    ...step,
+    cloudCover: hours[i]?.cloudCover ?? 0,
+    demand: step.load + step.shedLoad,
+    stateOfCharge: capacity > 0 ? (step.batteryCharge / capacity) * 100 : 0,
+    // Shedding starts above the floor, but for the loads it drops the battery is as good as empty
+    atFloor: (capacity > 0 && step.batteryCharge <= floor + capacity * FLOOR_TOLERANCE) ||
+      step.shedLoad > 0 || step.unmetLoad > 0,
+    shortfall: step.shedLoad + step.unmetLoad + step.gridImport
+  }));
+
+  const windows: FloorWindow[] = [];
+  steps.forEach((step, i) => {
+    if (!step.atFloor) return;
+    const last = windows[windows.length - 1];
+    if (last && steps[i - 1]?.atFloor) {
+      last.end = step.time;
+      last.hours += 1;
+      last.shortfall += step.shortfall;
+    } else {
+      windows.push({ start: step.time, end: step.time, hours: 1, shortfall: step.shortfall });
+    }
+  });
+
+  return {
+    steps,
+    floor: capacity > 0 ? (floor / capacity) * 100 : 0,
+    windows,
+    solar: sum(steps, step => step.solar),
+    wind: sum(steps, step => step.wind),
+    demand: sum(steps, step => step.demand),
+    shortfall: sum(steps, step => step.shortfall)
+  };
+};
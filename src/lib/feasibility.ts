@@ -0,0 +1,179 @@
+export type FeasibilityStatus = 'optimal' | 'moderate' | 'not-recommended';
+
+export interface FeasibilityInput {
+  solarAverage: number; // kWh/m²/day
+  solarPeak: number;
+  windAverage: number; // m/s
+  windPeak: number;
+  runtime: number; // hours of backup in the worst-case night
+}
+
+export type FeasibilityInputId = keyof FeasibilityInput;
+export type FeasibilityFactorId = 'solar' | 'wind' | 'storage' | 'reliability';
+
+// An input scores nothing at or below `poor`, full marks at or above `good`,
+// and linearly in between
+export interface InputRange {
+  poor: number;
+  good: number;
+}
+
+export interface FeasibilityModel {
+  weights: Record<FeasibilityFactorId, number>; // relative, need not sum to 100
+  ranges: Record<FeasibilityInputId, InputRange>;
+  thresholds: Record<Exclude<FeasibilityStatus, 'not-recommended'>, number>; // minimum score, 0-100
+}
+
+export const DEFAULT_FEASIBILITY_MODEL: FeasibilityModel = {
+  weights: { solar: 40, wind: 30, storage: 20, reliability: 10 },
+  ranges: {
+    solarAverage: { poor: 3, good: 6 },
+    solarPeak: { poor: 5, good: 7 },
+    windAverage: { poor: 2.5, good: 5 },
+    windPeak: { poor: 4, good: 6 },
+    runtime: { poor: 4, good: 12 }
+  },
+  thresholds: { optimal: 80, moderate: 60 }
+};
+
+// Each factor scores the best of its inputs
+const FACTOR_INPUTS: Record<FeasibilityFactorId, FeasibilityInputId[]> = {
+  solar: ['solarAverage'],
+  wind: ['windAverage'],
+  storage: ['runtime'],
+  reliability: ['solarPeak', 'windPeak']
+};
+
+export const FEASIBILITY_FACTOR_LABELS: Record<FeasibilityFactorId, string> = {
+  solar: 'Solar resource',
+  wind: 'Wind resource',
+  storage: 'Battery backup',
+  reliability: 'Resource peaks'
+};
+
+export const FEASIBILITY_INPUTS: Record<FeasibilityInputId, { label: string; unit: string; hint: string }> = {
+  solarAverage: { label: 'Average solar irradiance', unit: 'kWh/m²/day', hint: 'A sunnier site averaging' },
+  solarPeak: { label: 'Peak solar irradiance', unit: 'kWh/m²/day', hint: 'Solar peaks reaching' },
+  windAverage: { label: 'Average wind speed', unit: 'm/s', hint: 'A taller hub or windier site averaging' },
+  windPeak: { label: 'Peak wind speed', unit: 'm/s', hint: 'Wind peaks reaching' },
+  runtime: { label: 'Worst-case night backup', unit: 'h', hint: 'Enough battery for' }
+};
+
+export const FEASIBILITY_STATUS_LABELS: Record<FeasibilityStatus, string> = {
+  optimal: 'Optimal',
+  moderate: 'Moderate',
+  'not-recommended': 'Not Recommended'
+};
+
+export interface FactorScore {
+  id: FeasibilityFactorId;
+  label: string;
+  subScore: number; // 0-1
+  weight: number; // share of the total score, 0-1
+  points: number; // subScore × weight × 100
+  maxPoints: number; // weight × 100
+  inputs: FeasibilityInputId[];
+}
+
+// How the score responds to one input, all others held fixed
+export interface InputSensitivity {
+  input: FeasibilityInputId;
+  value: number;
+  perUnit: number; // points gained per unit increase at the current value
+  target: number; // value at which the input earns full marks
+  gainAtTarget: number; // points gained by raising the input to `target`
+}
+
+export interface FeasibilityAssessment {
+  status: FeasibilityStatus;
+  score: number; // 0-100
+  reason: string;
+  factors: FactorScore[];
+  sensitivity: InputSensitivity[];
+  hints: string[]; // what would raise the score, largest gain first
+}
+
+// Finite-difference step for the per-unit sensitivity, as a share of the input's range
+const SENSITIVITY_STEP = 0.01;
+const MIN_HINT_GAIN = 1; // points
+
+const ramp = (value: number, { poor, good }: InputRange) =>
+  good === poor ? (value >= good ? 1 : 0) : Math.min(1, Math.max(0, (value - poor) / (good - poor)));
+
+const totalWeight = (model: FeasibilityModel) =>
+  (Object.keys(FACTOR_INPUTS) as FeasibilityFactorId[]).reduce((sum, id) => sum + Math.max(0, model.weights[id]), 0);
+
+const factorScores = (input: FeasibilityInput, model: FeasibilityModel): FactorScore[] => {
+  const total = totalWeight(model);
+  return (Object.keys(FACTOR_INPUTS) as FeasibilityFactorId[]).map(id => {
+    const inputs = FACTOR_INPUTS[id];
+    const subScore = Math.max(...inputs.map(key => ramp(input[key], model.ranges[key])));
+    const weight = total > 0 ? Math.max(0, model.weights[id]) / total : 0;
+    return {
+      id,
+      label: FEASIBILITY_FACTOR_LABELS[id],
+      subScore,
+      weight,
+      points: subScore * weight * 100,
+      maxPoints: weight * 100,
+      inputs
+    };
+  });
+};
+
+const rawScore = (input: FeasibilityInput, model: FeasibilityModel) =>
+  factorScores(input, model).reduce((sum, factor) => sum + factor.points, 0);
+
+export const feasibilityStatus = (score: number, model = DEFAULT_FEASIBILITY_MODEL): FeasibilityStatus =>
+  score >= model.thresholds.optimal ? 'optimal' : score >= model.thresholds.moderate ? 'moderate' : 'not-recommended';
+
+const describeFactor = ({ id, subScore }: FactorScore) => {
+  const label = FEASIBILITY_FACTOR_LABELS[id].toLowerCase();
+  return subScore >= 0.8 ? `strong ${label}` : subScore >= 0.4 ? `fair ${label}` : `weak ${label}`;
+};
+
+const formatInput = (id: FeasibilityInputId, value: number) => `${value.toFixed(1)} ${FEASIBILITY_INPUTS[id].unit}`;
+
+// Weighted sum of per-factor sub-scores. Every input is scored on a linear
+// ramp between its poor and good values, so the breakdown, sensitivities and
+// hints all follow directly from the model.
+export const assessFeasibility = (
+  input: FeasibilityInput,
+  model: FeasibilityModel = DEFAULT_FEASIBILITY_MODEL
+): FeasibilityAssessment => {
+  const factors = factorScores(input, model);
+  const raw = factors.reduce((sum, factor) => sum + factor.points, 0);
+
+  const sensitivity = (Object.keys(model.ranges) as FeasibilityInputId[]).map((key): InputSensitivity => {
+    const { poor, good } = model.ranges[key];
+    const step = Math.max(Math.abs(good - poor) * SENSITIVITY_STEP, 1e-6);
+    const target = Math.max(input[key], good);
+    return {
+      input: key,
+      value: input[key],
+      perUnit: (rawScore({ ...input, [key]: input[key] + step }, model) - raw) / step,
+      target,
+      gainAtTarget: rawScore({ ...input, [key]: target }, model) - raw
+    };
+  });
+
+  const hints = sensitivity
+    .filter(item => item.gainAtTarget >= MIN_HINT_GAIN)
+    .sort((a, b) => b.gainAtTarget - a.gainAtTarget)
+    .map(({ input: key, target, gainAtTarget }) => {
+      const score = Math.round(raw + gainAtTarget);
+      const status = feasibilityStatus(score, model);
+      const change = status !== feasibilityStatus(Math.round(raw), model) ? `, making it ${FEASIBILITY_STATUS_LABELS[status]}` : '';
+      return `${FEASIBILITY_INPUTS[key].hint} ${formatInput(key, target)} would add ${gainAtTarget.toFixed(0)} points${change}`;
+    });
+
+  const score = Math.round(raw);
+  return {
+    status: feasibilityStatus(score, model),
+    score,
+    reason: factors.map(describeFactor).join(', '),
+    factors,
+    sensitivity,
+    hints
+  };
+};
@@ -0,0 +1,178 @@
+import { DEFAULT_CAPITAL_COSTS, capex as capexItems, totalCapex as sumCapex, type CapexItem, type CapitalCosts } from '@/lib/capital-costs';
+import {
+  capitalSubsidy, depreciationSaving, generationIncentive, type IncentiveSettings
+} from '@/lib/incentives';
+
+export interface FinanceSettings extends CapitalCosts {
+  omRate: number; // yearly O&M as a fraction of capex
+  batteryLife: number; // years between battery replacements
+  inverterLife: number; // years between inverter replacements
+  discountRate: number; // fraction per year
+  inflation: number; // O&M and replacement cost escalation, fraction per year
+  tariffEscalation: number; // grid tariff growth, fraction per year
+  degradation: number; // PV output loss, fraction per year
+  years: number; // analysis horizon
+}
+
+export const DEFAULT_FINANCE_SETTINGS: FinanceSettings = {
+  ...DEFAULT_CAPITAL_COSTS,
+  omRate: 0.01,
+  batteryLife: 10,
+  inverterLife: 12,
+  discountRate: 0.08,
+  inflation: 0.05,
+  tariffEscalation: 0.03,
+  degradation: 0.005,
+  years: 25
+};
+
+export interface FinanceInput {
+  pvCapacity: number; // kWp
+  windCapacity: number; // kW rated
+  batteryCapacity: number; // kWh
+  annualEnergy: number; // kWh of load the system serves in year one
+  solarShare: number; // fraction of that energy from PV, which degrades
+  annualSavings: number; // ₹ of grid bill avoided in year one
+  annualGeneration: number; // kWh of PV and wind output in year one
+  settings: FinanceSettings;
+  incentives?: IncentiveSettings; // none when omitted
+}
+
+export interface CashFlowYear {
+  year: number; // 0 is the installation year
+  energy: number; // kWh served
+  savings: number; // ₹
+  om: number; // ₹
+  replacements: number; // ₹
+  incentives: number; // ₹, capital subsidy, depreciation tax saving and GBI
+  cashFlow: number; // ₹, savings and incentives less costs
+  discounted: number; // ₹ present value of cashFlow
+  cumulative: number; // ₹ cumulative discounted cash flow
+}
+
+export interface IncentiveValue {
+  subsidy: number; // ₹ capital subsidy at installation
+  depreciation: number; // ₹ present value of tax saved
+  gbi: number; // ₹ present value of generation-based incentive
+}
+
+export interface FinanceResult {
+  capex: CapexItem[];
+  totalCapex: number; // ₹
+  netCapex: number; // ₹ after the capital subsidy
+  incentiveValue: IncentiveValue;
+  years: CashFlowYear[];
+  npv: number; // ₹
+  irr: number | null; // fraction, null when cash flows never change sign
+  lcoe: number | null; // ₹/kWh, null when no energy is served
+  simplePayback: number | null; // years, undiscounted
+  discountedPayback: number | null; // years, null beyond the horizon
+}
+
+const IRR_BOUNDS = [-0.99, 1];
+const IRR_ITERATIONS = 100;
+
+const presentValue = (flows: number[], rate: number) =>
+  flows.reduce((sum, flow, year) => sum + flow / (1 + rate) ** year, 0);
+
+// Bisection on NPV(rate) = 0; NPV falls as the rate rises for a conventional
+// project with the outlay up front.
+export const internalRateOfReturn = (flows: number[]): number | null => {
+  let [low, high] = IRR_BOUNDS;
+  if (Math.sign(presentValue(flows, low)) === Math.sign(presentValue(flows, high))) return null;
+  for (let i = 0; i < IRR_ITERATIONS; i++) {
+    const middle = (low + high) / 2;
+    if (presentValue(flows, middle) > 0) low = middle;
+    else high = middle;
+  }
+  return (low + high) / 2;
+};
+
+// Years until a running total turns non-negative, interpolated within the year
+const paybackYears = (flows: number[]): number | null => {
+  let total = flows[0] ?? 0;
+  if (total >= 0) return 0;
+  for (let year = 1; year < flows.length; year++) {
+    const previous = total;
+    total += flows[year];
+    if (total >= 0) return year - 1 + -previous / flows[year];
+  }
+  return null;
+};
+
+// A component bought at installation is replaced every `life` years while the
+// project still has years to run.
+const isReplacementYear = (year: number, life: number, horizon: number) =>
+  life > 0 && year < horizon && year % life === 0;
+
+// Year-by-year cash flows over the horizon: savings grow with the tariff and
+// shrink as the PV degrades; O&M and replacements grow with inflation.
+// Incentives are cash flows too: the subsidy offsets capex in year 0 and the
+// depreciation tax saving and GBI arrive with each year of operation.
+export const financialModel = ({
+  pvCapacity, windCapacity, batteryCapacity, annualEnergy, solarShare, annualSavings, annualGeneration, settings,
+  incentives
+}: FinanceInput): FinanceResult => {
+  const capex = capexItems(settings, { pvCapacity, windCapacity, batteryCapacity });
+  const totalCapex = sumCapex(capex);
+  const subsidy = incentives
+    ? capitalSubsidy(incentives, {
+      pvCapacity,
+      windCapacity,
+      pvCost: pvCapacity * (settings.pvCost + settings.inverterCost),
+      totalCapex
+    })
+    : 0;
+  const netCapex = totalCapex - subsidy;
+  const incentiveValue: IncentiveValue = { subsidy, depreciation: 0, gbi: 0 };
+  const tariffPerKwh = annualEnergy > 0 ? annualSavings / annualEnergy : 0;
+  const replacementCost = (year: number) =>
+    ((isReplacementYear(year, settings.batteryLife, settings.years) ? batteryCapacity * settings.batteryCost : 0) +
+      (isReplacementYear(year, settings.inverterLife, settings.years) ? pvCapacity * settings.inverterCost : 0)) *
+    (1 + settings.inflation) ** year;
+
+  let cumulative = -netCapex;
+  const years: CashFlowYear[] = [{
+    year: 0, energy: 0, savings: 0, om: 0, replacements: 0, incentives: subsidy, cashFlow: -netCapex, discounted: -netCapex,
+    cumulative
+  }];
+  for (let year = 1; year <= settings.years; year++) {
+    const degraded = 1 - solarShare * (1 - (1 - settings.degradation) ** (year - 1));
+    const energy = annualEnergy * degraded;
+    const savings = energy * tariffPerKwh * (1 + settings.tariffEscalation) ** (year - 1);
+    const om = totalCapex * settings.omRate * (1 + settings.inflation) ** (year - 1);
+    const replacements = replacementCost(year);
+    const factor = (1 + settings.discountRate) ** year;
+    const depreciation = incentives ? depreciationSaving(incentives, netCapex, year) : 0;
+    const gbi = incentives ? generationIncentive(incentives, annualGeneration * degraded, year) : 0;
+    incentiveValue.depreciation += depreciation / factor;
+    incentiveValue.gbi += gbi / factor;
+    const cashFlow = savings + depreciation + gbi - om - replacements;
+    const discounted = cashFlow / factor;
+    cumulative += discounted;
+    years.push({
+      year, energy, savings, om, replacements, incentives: depreciation + gbi, cashFlow, discounted, cumulative
+    });
+  }
+
+  const flows = years.map(year => year.cashFlow);
+  // Incentives lower the cost of each kWh
+  const discountedCosts = years.reduce(
+    (sum, { year, om, replacements }) => sum + (om + replacements) / (1 + settings.discountRate) ** year,
+    netCapex - incentiveValue.depreciation - incentiveValue.gbi
+  );
+  const discountedEnergy = years.reduce((sum, { year, energy }) => sum + energy / (1 + settings.discountRate) ** year, 0);
+
+  return {
+    capex,
+    totalCapex,
+    netCapex,
+    incentiveValue,
+    years,
+    npv: presentValue(flows, settings.discountRate),
+    irr: internalRateOfReturn(flows),
+    lcoe: discountedEnergy > 0 ? discountedCosts / discountedEnergy : null,
+    simplePayback: paybackYears(flows),
+    discountedPayback: paybackYears(years.map(year => year.discounted))
+  };
+};
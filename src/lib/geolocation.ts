@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { fetchJson } from '@/lib/api-client';
+
+export const GEOCODER_SERVICE = 'BigDataCloud';
+export const IP_LOCATION_SERVICE = 'ipapi.co';
+
+const latitude = z.number().min(-90).max(90);
+const longitude = z.number().min(-180).max(180);
+
+const reverseGeocodeSchema = z.object({
+  city: z.string().optional(),
+  principalSubdivision: z.string().optional(),
+  countryName: z.string().optional(),
+  localityInfo: z.object({
+    informative: z.array(z.object({ name: z.string(), description: z.string().optional() })).optional()
+  }).optional()
+});
+
+const ipLocationSchema = z.object({ latitude, longitude });
+
+export interface PlaceName {
+  city: string;
+  region: string;
+  country: string;
+  timeZone?: string; // IANA zone, when the geocoder knows it
+}
+
+// ipapi.co answers 200 with { error: true, reason: 'RateLimited' } once the free quota is used
+const ipLocationRateLimited = (body: unknown) =>
+  typeof body === 'object' && body !== null && 'reason' in body && body.reason === 'RateLimited';
+
+export const reverseGeocode = async (lat: number, lon: number): Promise<PlaceName> => {
+  const place = await fetchJson(
+    `https://api.bigdatacloud.net/data/reverse-geocode-client?latitude=${lat}&longitude=${lon}&localityLanguage=en`,
+    reverseGeocodeSchema,
+    GEOCODER_SERVICE
+  );
+  return {
+    city: place.city || 'Unknown',
+    region: place.principalSubdivision || 'Unknown',
+    country: place.countryName || 'Unknown',
+    timeZone: place.localityInfo?.informative?.find(info => info.description === 'time zone')?.name
+  };
+};
+
+// Approximate coordinates of the visitor's network, for when the browser will not say.
+export const ipLocation = () =>
+  fetchJson('https://ipapi.co/json/', ipLocationSchema, IP_LOCATION_SERVICE, { isRateLimited: ipLocationRateLimited });
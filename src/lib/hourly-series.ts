@@ -0,0 +1,153 @@
+import type { EnergyData } from '@/types/energy';
+import { buildHourlyResource, type HourlyResource } from '@/lib/simulation';
+import type { PowerPayload } from '@/lib/nasa-power';
+import { solarHourAt } from '@/lib/pv';
+
+export const HOURLY_PARAMETERS = ['ALLSKY_SFC_SW_DWN', 'T2M', 'WS10M'];
+
+export interface HourlyPoint {
+  timestamp: number; // start of the hour, UTC epoch ms
+  irradiance: number; // kWh/m² during the hour
+  temperature: number; // °C at 2m
+  windSpeed: number; // m/s at 10m
+}
+
+export interface HourlySeries {
+  timeZone: string; // IANA zone of the site; timestamps are rendered in it
+  points: HourlyPoint[]; // ascending by timestamp
+}
+
+export type ZoomLevel = 'month' | 'day' | 'hour';
+
+export interface LocalTime {
+  date: string; // YYYY-MM-DD in the site's time zone
+  hour: number;
+}
+
+// Zone for a fixed UTC offset in hours, rounded to the hour as Etc/GMT zones
+// allow. Their names have the sign reversed: Etc/GMT-5 is UTC+5.
+export const fixedOffsetZone = (hours: number) => {
+  const offset = Math.round(hours);
+  return offset === 0 ? 'Etc/GMT' : `Etc/GMT${offset > 0 ? '-' : '+'}${Math.abs(offset)}`;
+};
+
+// Fixed-offset zone from longitude, for sites whose real zone is unknown.
+export const nominalTimeZone = (longitude: number) => fixedOffsetZone(longitude / 15);
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const formatterFor = (timeZone: string) => {
+  if (!formatters.has(timeZone)) {
+    formatters.set(timeZone, new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23'
+    }));
+  }
+  return formatters.get(timeZone);
+};
+
+export const localTime = (timestamp: number, timeZone: string): LocalTime => {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone).formatToParts(new Date(timestamp)).map(part => [part.type, part.value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, hour: Number(parts.hour) };
+};
+
+// UTC timestamp of the start of a wall-clock hour in the given zone. Zones
+// with sub-hour offsets land on the hour that contains that instant.
+export const fromLocalTime = (date: string, hour: number, timeZone: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const guess = Date.UTC(year, month - 1, day, hour);
+  const local = localTime(guess, timeZone);
+  const [y, m, d] = local.date.split('-').map(Number);
+  return guess - (Date.UTC(y, m - 1, d, local.hour) - guess);
+};
+
+// Parses an hourly POWER response requested with time-standard=UTC, whose
+// keys are YYYYMMDDHH. Hours missing any parameter after screening are dropped.
+export const parsePowerHourly = (payload: PowerPayload): HourlyPoint[] => {
+  const { ALLSKY_SFC_SW_DWN: irradiance = {}, T2M: temperature = {}, WS10M: windSpeed = {} } = payload.properties.parameter;
+
+  return Object.keys(irradiance)
+    .map(key => ({
+      key,
+      values: [irradiance[key], temperature[key], windSpeed[key]].map(Number)
+    }))
+    .filter(({ values }) => values.every(Number.isFinite))
+    .map(({ key, values: [ghi, t2m, ws10m] }) => ({
+      timestamp: Date.UTC(+key.slice(0, 4), +key.slice(4, 6) - 1, +key.slice(6, 8), +key.slice(8, 10)),
+      irradiance: ghi / 1000, // Wh/m² → kWh/m²
+      temperature: t2m,
+      windSpeed: ws10m
+    }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// Hourly series in the shape the dispatch model expects, on the site's clock,
+// with the apparent solar time the PV model needs for the sun's position.
+export const toHourlyResource = ({ timeZone, points }: HourlySeries, longitude: number): HourlyResource[] =>
+  points.map(point => {
+    const { date, hour } = localTime(point.timestamp, timeZone);
+    return {
+      time: `${date}T${String(hour).padStart(2, '0')}:00`,
+      solarHour: solarHourAt(point.timestamp, longitude),
+      irradiance: point.irradiance,
+      windSpeed: point.windSpeed,
+      temperature: point.temperature
+    };
+  });
+
+// Measured hours stand in for the daily values spread over a clear-sky shape
+// whenever the models run on the fetched window rather than a typical year.
+export const analysisResource = (
+  data: EnergyData,
+  hourly: HourlySeries | null,
+  latitude: number,
+  longitude: number,
+  typicalYear: boolean
+): HourlyResource[] =>
+  !typicalYear && hourly?.points.length
+    ? toHourlyResource(hourly, longitude)
+    : buildHourlyResource(data.solar.daily, data.wind.daily, data.temperature, latitude);
+
+export interface SeriesBucket {
+  key: string; // YYYY-MM, YYYY-MM-DD or YYYY-MM-DDTHH:00
+  label: string;
+  irradiance: number; // kWh/m²/day for months and days, kWh/m² for hours
+  windSpeed: number; // mean m/s
+  temperature: number; // mean °C
+  hours: number; // hours of data in the bucket
+}
+
+// Groups the series for a zoom level. Days are limited to one month and hours
+// to one day, given as the key of the bucket that was zoomed into.
+export const aggregateSeries = (series: HourlySeries, level: ZoomLevel, within?: string): SeriesBucket[] => {
+  const buckets = new Map<string, { irradiance: number; windSpeed: number; temperature: number; hours: number; days: Set<string> }>();
+
+  series.points.forEach(point => {
+    const { date, hour } = localTime(point.timestamp, series.timeZone);
+    if (within && !date.startsWith(within)) return;
+    const key = level === 'month' ? date.slice(0, 7) : level === 'day' ? date : `${date}T${String(hour).padStart(2, '0')}:00`;
+    const bucket = buckets.get(key) ?? { irradiance: 0, windSpeed: 0, temperature: 0, hours: 0, days: new Set<string>() };
+    bucket.irradiance += point.irradiance;
+    bucket.windSpeed += point.windSpeed;
+    bucket.temperature += point.temperature;
+    bucket.hours += 1;
+    bucket.days.add(date);
+    buckets.set(key, bucket);
+  });
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, bucket]) => ({
+      key,
+      label: level === 'month' ? key : level === 'day' ? key.slice(5) : key.slice(11),
+      irradiance: level === 'hour' ? bucket.irradiance : bucket.irradiance / bucket.days.size,
+      windSpeed: bucket.windSpeed / bucket.hours,
+      temperature: bucket.temperature / bucket.hours,
+      hours: bucket.hours
+    }));
+};
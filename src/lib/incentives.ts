@@ -0,0 +1,115 @@
+export type SubsidyBasis = 'none' | 'percent' | 'per-kw';
+export type SubsidyScope = 'pv' | 'system';
+export type IncentivePresetId = 'none' | 'pm-surya-ghar' | 'pm-kusum' | 'mini-grid' | 'commercial';
+
+export interface IncentiveSettings {
+  preset?: string; // IncentivePresetId, or 'custom' once edited
+  subsidyBasis: SubsidyBasis;
+  subsidyRate: number; // fraction of eligible capex, or ₹/kW when per-kW
+  subsidyScope: SubsidyScope; // PV array and inverter only, or the whole system
+  subsidyCapacityCap: number; // kW eligible, 0 for no limit
+  subsidyCap: number; // ₹ per project, 0 for no cap
+  depreciationRate: number; // accelerated depreciation, fraction of written-down value per year
+  taxRate: number; // tax rate the depreciation is claimed against, fraction
+  gbiRate: number; // ₹/kWh generated
+  gbiYears: number; // years the generation-based incentive is paid
+}
+
+export const SUBSIDY_BASIS_LABELS: Record<SubsidyBasis, string> = {
+  none: 'No capital subsidy',
+  percent: '% of eligible cost',
+  'per-kw': '₹ per kW'
+};
+
+export const SUBSIDY_SCOPE_LABELS: Record<SubsidyScope, string> = {
+  pv: 'PV array and inverter',
+  system: 'Whole system'
+};
+
+export const DEFAULT_INCENTIVES: IncentiveSettings = {
+  preset: 'none',
+  subsidyBasis: 'none',
+  subsidyRate: 0,
+  subsidyScope: 'pv',
+  subsidyCapacityCap: 0,
+  subsidyCap: 0,
+  depreciationRate: 0,
+  taxRate: 0,
+  gbiRate: 0,
+  gbiYears: 0
+};
+
+// Indicative scheme terms, simplified to a single rate; check current
+// guidelines before relying on them
+export const INCENTIVE_PRESETS: Record<IncentivePresetId, { label: string; incentives: IncentiveSettings }> = {
+  none: { label: 'No incentives', incentives: DEFAULT_INCENTIVES },
+  'pm-surya-ghar': {
+    label: 'PM Surya Ghar (residential rooftop)',
+    incentives: {
+      ...DEFAULT_INCENTIVES,
+      preset: 'pm-surya-ghar',
+      subsidyBasis: 'per-kw',
+      subsidyRate: 30000,
+      subsidyCapacityCap: 3,
+      subsidyCap: 78000
+    }
+  },
+  'pm-kusum': {
+    label: 'PM-KUSUM (standalone solar pump)',
+    incentives: {
+      ...DEFAULT_INCENTIVES,
+      preset: 'pm-kusum',
+      subsidyBasis: 'percent',
+      subsidyRate: 0.6,
+      subsidyScope: 'system',
+      subsidyCapacityCap: 7.5
+    }
+  },
+  'mini-grid': {
+    label: 'Rural mini-grid (capital subsidy and GBI)',
+    incentives: {
+      ...DEFAULT_INCENTIVES,
+      preset: 'mini-grid',
+      subsidyBasis: 'percent',
+      subsidyRate: 0.3,
+      subsidyScope: 'system',
+      gbiRate: 1,
+      gbiYears: 10
+    }
+  },
+  commercial: {
+    label: 'Commercial (accelerated depreciation)',
+    incentives: { ...DEFAULT_INCENTIVES, preset: 'commercial', depreciationRate: 0.4, taxRate: 0.2517 }
+  }
+};
+
+export interface SubsidyInput {
+  pvCapacity: number; // kWp
+  windCapacity: number; // kW rated
+  pvCost: number; // ₹, PV array and inverter
+  totalCapex: number; // ₹
+}
+
+// One-off capital subsidy: the rate applies to the capacity within the
+// capacity cap, never exceeds the eligible cost, and stops at the rupee cap.
+export const capitalSubsidy = (
+  incentives: IncentiveSettings,
+  { pvCapacity, windCapacity, pvCost, totalCapex }: SubsidyInput
+) => {
+  const capacity = incentives.subsidyScope === 'pv' ? pvCapacity : pvCapacity + windCapacity;
+  const eligibleCost = incentives.subsidyScope === 'pv' ? pvCost : totalCapex;
+  if (incentives.subsidyBasis === 'none' || capacity <= 0) return 0;
+  const eligibleCapacity = incentives.subsidyCapacityCap > 0 ? Math.min(capacity, incentives.subsidyCapacityCap) : capacity;
+  const subsidy = incentives.subsidyBasis === 'percent'
+    ? eligibleCost * (eligibleCapacity / capacity) * incentives.subsidyRate
+    : Math.min(eligibleCost, eligibleCapacity * incentives.subsidyRate);
+  return incentives.subsidyCap > 0 ? Math.min(subsidy, incentives.subsidyCap) : subsidy;
+};
+
+// Tax saved in a year by written-down-value depreciation on the capex left
+// after the subsidy; year 1 is the first year of operation
+export const depreciationSaving = (incentives: IncentiveSettings, depreciableCost: number, year: number) =>
+  depreciableCost * incentives.depreciationRate * (1 - incentives.depreciationRate) ** (year - 1) * incentives.taxRate;
+
+export const generationIncentive = (incentives: IncentiveSettings, generation: number, year: number) =>
+  year <= incentives.gbiYears ? generation * incentives.gbiRate : 0;
@@ -0,0 +1,172 @@
+import type {
+  Appliance, ApplianceSchedule, DayType, LoadPriority, MeasuredLoad, ScheduleVariant, Season, TimeWindow
+} from '@/types/energy';
+
+export const HOURS_PER_DAY = 24;
+
+// Highest priority first; shedding and unmet load work from the end
+export const LOAD_PRIORITIES: LoadPriority[] = ['critical', 'essential', 'deferrable'];
+
+export const SEASON_LABELS: Record<Season, string> = {
+  summer: 'Summer (Mar–May)',
+  monsoon: 'Monsoon (Jun–Sep)',
+  winter: 'Winter (Oct–Feb)'
+};
+
+export interface LoadContext {
+  dayType: DayType;
+  season: Season;
+}
+
+export const seasonOfMonth = (month: number): Season => {
+  if (month >= 3 && month <= 5) return 'summer';
+  if (month >= 6 && month <= 9) return 'monsoon';
+  return 'winter';
+};
+
+const dayTypeOf = (weekday: number): DayType => (weekday === 0 || weekday === 6 ? 'weekend' : 'weekday');
+
+// Context for a YYYY-MM-DD date string.
+export const loadContext = (date: string): LoadContext => {
+  const d = new Date(`${date}T00:00:00Z`);
+  return { dayType: dayTypeOf(d.getUTCDay()), season: seasonOfMonth(d.getUTCMonth() + 1) };
+};
+
+export const currentLoadContext = (): LoadContext => {
+  const now = new Date();
+  return { dayType: dayTypeOf(now.getDay()), season: seasonOfMonth(now.getMonth() + 1) };
+};
+
+// Windows and duty cycle in effect for the context. A seasonal variant without
+// its own weekend windows applies to every day of that season.
+export const resolveSchedule = (schedule: ApplianceSchedule, context: LoadContext) => {
+  const pick = (source?: ScheduleVariant) =>
+    context.dayType === 'weekend' ? source?.weekend ?? source?.weekday : source?.weekday;
+  const variant = schedule.seasons?.[context.season];
+
+  return {
+    windows: pick(variant) ?? pick(schedule) ?? schedule.weekday,
+    dutyCycle: variant?.dutyCycle ?? schedule.dutyCycle
+  };
+};
+
+const clampHour = (hour: number) => Math.min(HOURS_PER_DAY, Math.max(0, hour));
+
+// Splits windows that run past midnight into same-day segments.
+const segments = ({ start, end }: TimeWindow): Array<[number, number]> => {
+  const from = clampHour(start);
+  const to = clampHour(end);
+  return to > from ? [[from, to]] : [[from, HOURS_PER_DAY], [0, to]];
+};
+
+export const windowHours = (windows: TimeWindow[]) =>
+  windows.flatMap(segments).reduce((sum, [from, to]) => sum + (to - from), 0);
+
+// Hourly draw (kW) of one appliance, prorating partial hours.
+export const applianceProfile = (appliance: Appliance, context: LoadContext): number[] => {
+  const profile = new Array(HOURS_PER_DAY).fill(0);
+  const { windows, dutyCycle } = resolveSchedule(appliance.schedule, context);
+  const draw = appliance.power * Math.min(1, Math.max(0, dutyCycle));
+
+  windows.flatMap(segments).forEach(([from, to]) => {
+    for (let hour = Math.floor(from); hour < Math.ceil(to); hour++) {
+      profile[hour] += draw * (Math.min(to, hour + 1) - Math.max(from, hour));
+    }
+  });
+
+  return profile;
+};
+
+export const buildLoadProfile = (appliances: Appliance[], context: LoadContext): number[] =>
+  appliances.reduce((profile, appliance) => {
+    applianceProfile(appliance, context).forEach((value, hour) => {
+      profile[hour] += value;
+    });
+    return profile;
+  }, new Array(HOURS_PER_DAY).fill(0));
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+// Total hourly demand across tiers.
+export const totalProfile = (tiers: Record<LoadPriority, number[]>) =>
+  Array.from({ length: HOURS_PER_DAY }, (_, hour) => sum(LOAD_PRIORITIES.map(tier => tiers[tier][hour])));
+
+// Fits appliance tier profiles to a meter log. Replacing follows the metered
+// shape hour by hour, keeping each hour's tier shares and treating load the
+// appliance list does not explain as essential. Calibrating keeps the
+// appliance shape and only matches the metered daily energy.
+export const applyMeasuredLoad = (
+  tiers: Record<LoadPriority, number[]>,
+  measured: MeasuredLoad,
+  context: LoadContext
+): Record<LoadPriority, number[]> => {
+  const target = measured[context.dayType];
+  const modelled = totalProfile(tiers);
+
+  if (measured.mode === 'calibrate') {
+    const factor = sum(modelled) > 0 ? sum(target) / sum(modelled) : 1;
+    return {
+      critical: tiers.critical.map(value => value * factor),
+      essential: tiers.essential.map(value => value * factor),
+      deferrable: tiers.deferrable.map(value => value * factor)
+    };
+  }
+
+  const scaled = (tier: LoadPriority) => tiers[tier].map((value, hour) =>
+    modelled[hour] > 0 ? (value * target[hour]) / modelled[hour] : tier === 'essential' ? target[hour] : 0
+  );
+  return { critical: scaled('critical'), essential: scaled('essential'), deferrable: scaled('deferrable') };
+};
+
+export const buildTierProfiles = (
+  appliances: Appliance[],
+  context: LoadContext,
+  measured: MeasuredLoad | null = null
+): Record<LoadPriority, number[]> => {
+  const tiers = {
+    critical: buildLoadProfile(appliances.filter(a => a.priority === 'critical'), context),
+    essential: buildLoadProfile(appliances.filter(a => a.priority === 'essential'), context),
+    deferrable: buildLoadProfile(appliances.filter(a => a.priority === 'deferrable'), context)
+  };
+  return measured ? applyMeasuredLoad(tiers, measured, context) : tiers;
+};
+
+export const dailyEnergy = (appliance: Appliance, context: LoadContext) =>
+  applianceProfile(appliance, context).reduce((a, b) => a + b, 0);
+
+const formatHour = (hour: number) => {
+  const minutes = Math.round(hour * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+// Contiguous block around the busiest hour where load stays within 80% of it.
+export const derivePeakHours = (profile: number[]) => {
+  const peak = Math.max(0, ...profile);
+  if (peak <= 0) return '';
+
+  const threshold = peak * 0.8;
+  const peakHour = profile.indexOf(peak);
+  let start = peakHour;
+  let end = peakHour + 1;
+  while (end - start < HOURS_PER_DAY && profile[(start - 1 + HOURS_PER_DAY) % HOURS_PER_DAY] >= threshold) start--;
+  while (end - start < HOURS_PER_DAY && profile[end % HOURS_PER_DAY] >= threshold) end++;
+
+  return `${formatHour((start + HOURS_PER_DAY) % HOURS_PER_DAY)}-${formatHour(end % HOURS_PER_DAY)}`;
+};
+
+export const formatWindows = (windows: TimeWindow[]) =>
+  windows.map(w => `${formatHour(w.start)}-${formatHour(w.end)}`).join(', ');
+
+const parseHour = (text: string) => {
+  const [hours, minutes = '0'] = text.trim().split(':');
+  return Number(hours) + Number(minutes) / 60;
+};
+
+// Parses "HH:MM-HH:MM" windows separated by commas, e.g. "06:00-08:00, 18:00-22:30".
+export const parseWindows = (text: string): TimeWindow[] =>
+  text
+    .split(',')
+    .map(part => part.split('-'))
+    .filter(range => range.length === 2)
+    .map(([start, end]) => ({ start: parseHour(start), end: parseHour(end) }))
+    .filter(w => Number.isFinite(w.start) && Number.isFinite(w.end));
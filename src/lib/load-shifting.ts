@@ -0,0 +1,145 @@
+import type { Appliance, TimeWindow } from '@/types/energy';
+import {
+  HOURS_PER_DAY, applianceProfile, buildLoadProfile, dailyEnergy, resolveSchedule, windowHours,
+  type LoadContext
+} from '@/lib/load-profile';
+
+export type ShiftObjective = 'grid-import' | 'cost';
+
+export interface ShiftInput {
+  appliances: Appliance[];
+  generation: number[]; // average renewable output per hour of day, kWh
+  prices: number[]; // grid price per hour of day, ₹/kWh
+  context: LoadContext;
+  objective: ShiftObjective;
+}
+
+export interface ShiftedAppliance {
+  index: number; // position in the input appliance list
+  name: string;
+  energy: number; // kWh/day
+  original: TimeWindow[];
+  shifted: TimeWindow[];
+  moved: boolean;
+}
+
+export interface ShiftPlan {
+  appliances: ShiftedAppliance[];
+  before: number[]; // hourly load, kW
+  after: number[];
+  generation: number[];
+  gridImportBefore: number; // kWh/day
+  gridImportAfter: number;
+  costBefore: number; // ₹/day
+  costAfter: number;
+  energySaved: number; // kWh/day
+  costSaved: number; // ₹/day
+}
+
+// Candidate start times are tried on a half-hour grid
+const START_STEP = 0.5;
+const EPSILON = 1e-9;
+
+export const flatPrices = (rate: number) => new Array(HOURS_PER_DAY).fill(rate);
+
+export const isShiftable = (appliance: Appliance) =>
+  appliance.priority === 'deferrable' && (appliance.schedule.allowed?.length ?? 0) > 0;
+
+// Hourly grid import when load is matched against renewable output hour by hour.
+// The battery is left out so that moving load into surplus hours shows up directly.
+const gridImport = (load: number[], generation: number[]) =>
+  load.map((kw, hour) => Math.max(0, kw - (generation[hour] ?? 0)));
+
+const weightedImport = (load: number[], generation: number[], weights: number[]) =>
+  gridImport(load, generation).reduce((sum, kwh, hour) => sum + kwh * weights[hour], 0);
+
+// True when a run of `duration` hours starting at `start` lies inside the window.
+const fitsWithin = (start: number, duration: number, window: TimeWindow) => {
+  const length = windowHours([window]);
+  const offset = (start - window.start + HOURS_PER_DAY) % HOURS_PER_DAY;
+  return offset + duration <= length + EPSILON;
+};
+
+const addProfile = (target: number[], profile: number[], sign = 1) =>
+  target.map((value, hour) => value + sign * profile[hour]);
+
+// Greedy rescheduling: deferrable appliances with allowed windows are taken
+// largest first and each is moved to the single contiguous run inside its
+// allowed windows that minimises the objective, given everything placed so far.
+export const optimiseLoadShift = ({ appliances, generation, prices, context, objective }: ShiftInput): ShiftPlan => {
+  const weights = objective === 'cost' ? prices : new Array(HOURS_PER_DAY).fill(1);
+  const before = buildLoadProfile(appliances, context);
+  let load = [...before];
+
+  const movable = appliances
+    .map((appliance, index) => ({ appliance, index }))
+    .filter(({ appliance }) => isShiftable(appliance))
+    .sort((a, b) => dailyEnergy(b.appliance, context) - dailyEnergy(a.appliance, context));
+
+  const planned = movable.map(({ appliance, index }): ShiftedAppliance => {
+    const { windows, dutyCycle } = resolveSchedule(appliance.schedule, context);
+    const duration = Math.min(HOURS_PER_DAY, windowHours(windows));
+    const original = applianceProfile(appliance, context);
+    const base = addProfile(load, original, -1);
+    const runProfile = (window: TimeWindow) =>
+      applianceProfile({ ...appliance, schedule: { weekday: [window], dutyCycle } }, context);
+
+    let best = { windows, profile: original, score: weightedImport(addProfile(base, original), generation, weights) };
+
+    if (duration > 0) {
+      for (let start = 0; start < HOURS_PER_DAY; start += START_STEP) {
+        if (!appliance.schedule.allowed.some(window => fitsWithin(start, duration, window))) continue;
+        const run = { start, end: (start + duration) % HOURS_PER_DAY };
+        const profile = runProfile(run);
+        const score = weightedImport(addProfile(base, profile), generation, weights);
+        if (score < best.score - EPSILON) best = { windows: [run], profile, score };
+      }
+    }
+
+    load = addProfile(base, best.profile);
+    return {
+      index,
+      name: appliance.name,
+      energy: dailyEnergy(appliance, context),
+      original: windows,
+      shifted: best.windows,
+      moved: best.windows !== windows
+    };
+  });
+
+  const gridImportBefore = weightedImport(before, generation, flatPrices(1));
+  const gridImportAfter = weightedImport(load, generation, flatPrices(1));
+  const costBefore = weightedImport(before, generation, prices);
+  const costAfter = weightedImport(load, generation, prices);
+
+  return {
+    appliances: planned.sort((a, b) => a.index - b.index),
+    before,
+    after: load,
+    generation,
+    gridImportBefore,
+    gridImportAfter,
+    costBefore,
+    costAfter,
+    energySaved: gridImportBefore - gridImportAfter,
+    costSaved: costBefore - costAfter
+  };
+};
+
+// Writes the optimised windows back as the appliances' everyday schedule.
+// Seasonal duty cycles are kept; seasonal window overrides are dropped.
+export const applyShiftPlan = (appliances: Appliance[], plan: ShiftPlan): Appliance[] =>
+  appliances.map((appliance, index) => {
+    const shift = plan.appliances.find(entry => entry.index === index);
+    if (!shift?.moved) return appliance;
+
+    const seasons = Object.fromEntries(
+      Object.entries(appliance.schedule.seasons ?? {})
+        .filter(([, variant]) => variant.dutyCycle !== undefined)
+        .map(([season, variant]) => [season, { dutyCycle: variant.dutyCycle }])
+    );
+    return {
+      ...appliance,
+      schedule: { ...appliance.schedule, weekday: shift.shifted, weekend: undefined, seasons }
+    };
+  });
@@ -0,0 +1,96 @@
+// Small key-value stores for data that should survive a reload. Each store is
+// an IndexedDB object store when the browser allows it (private windows and
+// some embedded views do not) and a localStorage entry otherwise.
+
+export interface LocalStore<T> {
+  all: () => Promise<T[]>;
+  get: (key: string) => Promise<T | undefined>;
+  put: (value: T) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+const DB_NAME = 'enershift';
+const DB_VERSION = 2;
+const KEY_PATH = 'id';
+
+// Every object store the app uses; opening the database creates missing ones
+const STORE_NAMES = ['sites', 'power-cache'] as const;
+export type StoreName = (typeof STORE_NAMES)[number];
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => {
+      STORE_NAMES.forEach(name => {
+        if (!open.result.objectStoreNames.contains(name)) open.result.createObjectStore(name, { keyPath: KEY_PATH });
+      });
+    };
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+
+// Opened once per page load and shared by every store
+let database: Promise<IDBDatabase | null> | null = null;
+const getDatabase = () => {
+  database ??= openDatabase().catch(() => null);
+  return database;
+};
+
+const indexedDbStore = <T>(db: IDBDatabase, name: StoreName): LocalStore<T> => {
+  const store = (mode: IDBTransactionMode) => db.transaction(name, mode).objectStore(name);
+  return {
+    all: () => request(store('readonly').getAll() as IDBRequest<T[]>),
+    get: (key) => request(store('readonly').get(key) as IDBRequest<T | undefined>),
+    put: async (value) => {
+      await request(store('readwrite').put(value));
+    },
+    remove: async (key) => {
+      await request(store('readwrite').delete(key));
+    }
+  };
+};
+
+const localStorageStore = <T extends { id: string }>(name: StoreName): LocalStore<T> => {
+  const storageKey = `enershift:${name}`;
+  const read = (): T[] => {
+    try {
+      return JSON.parse(localStorage.getItem(storageKey) ?? '[]');
+    } catch {
+      return [];
+    }
+  };
+  const write = (values: T[]) => localStorage.setItem(storageKey, JSON.stringify(values));
+
+  return {
+    all: async () => read(),
+    get: async (key) => read().find(value => value.id === key),
+    put: async (value) => write([...read().filter(v => v.id !== value.id), value]),
+    remove: async (key) => write(read().filter(v => v.id !== key))
+  };
+};
+
+// Resolves the backend lazily so callers can create stores at module load.
+export const createLocalStore = <T extends { id: string }>(name: StoreName): LocalStore<T> => {
+  let backend: Promise<LocalStore<T>> | null = null;
+  const resolve = () => {
+    backend ??= getDatabase().then(db => (db ? indexedDbStore<T>(db, name) : localStorageStore<T>(name)));
+    return backend;
+  };
+
+  return {
+    all: async () => (await resolve()).all(),
+    get: async (key) => (await resolve()).get(key),
+    put: async (value) => (await resolve()).put(value),
+    remove: async (key) => (await resolve()).remove(key)
+  };
+};
@@ -0,0 +1,140 @@
+import type { ImportMode, MeasuredLoad } from '@/types/energy';
+import { HOURS_PER_DAY, loadContext } from '@/lib/load-profile';
+import { localTime } from '@/lib/hourly-series';
+import {
+  HOUR, columnValues, detectDateOrder, gapReport, guessColumn, medianInterval, parseTimestamp, readCsvTable, resampleHourly,
+  type DateOrder, type GapReport
+} from '@/lib/csv-import';
+
+export type MeterUnit = 'kWh' | 'Wh' | 'kW' | 'W';
+
+export const METER_UNITS: MeterUnit[] = ['kWh', 'Wh', 'kW', 'W'];
+
+export type MeterField = 'time' | 'reading';
+
+export const METER_FIELD_LABELS: Record<MeterField, string> = {
+  time: 'Timestamp',
+  reading: 'Energy or power reading'
+};
+
+export interface MeterImportSettings {
+  mapping: Record<MeterField, number>; // column index, -1 when unmapped
+  unit: MeterUnit; // kWh and Wh are consumption per reading; kW and W are demand
+  dateOrder: DateOrder;
+}
+
+export interface MeterFileInspection extends MeterImportSettings {
+  headers: string[];
+  preview: string[][];
+}
+
+export interface MeterImport {
+  load: MeasuredLoad;
+  gaps: GapReport | null;
+}
+
+const PREVIEW_ROWS = 5;
+const DETECTION_ROWS = 500;
+
+// Readings in kWh for energy units and kW for power units
+const UNIT_SCALE: Record<MeterUnit, number> = { kWh: 1, Wh: 0.001, kW: 1, W: 0.001 };
+
+const isEnergyUnit = (unit: MeterUnit) => unit === 'kWh' || unit === 'Wh';
+
+const TIME_PATTERNS = [/^(date ?time|timestamp)/i, /^time/i, /^date/i];
+const READING_PATTERNS = [/kwh|energy|consumption|import/i, /kw|power|demand|load/i, /^(value|reading)/i];
+
+const detectMeterUnit = (header: string, values: number[]): MeterUnit => {
+  if (/kwh/i.test(header)) return 'kWh';
+  if (/wh/i.test(header)) return 'Wh';
+  if (/kw/i.test(header)) return 'kW';
+  if (/\bw\b|watt/i.test(header)) return 'W';
+  // Village loads rarely exceed a few tens of kW, so large numbers are watts
+  return Math.max(0, ...values) > 100 ? 'W' : 'kWh';
+};
+
+export const inspectMeterFile = (text: string): MeterFileInspection => {
+  const { headers, rows } = readCsvTable(text);
+  const mapping = {
+    time: guessColumn(headers, TIME_PATTERNS),
+    reading: guessColumn(headers, READING_PATTERNS)
+  };
+  const sample = rows.slice(0, DETECTION_ROWS);
+  return {
+    headers,
+    preview: rows.slice(0, PREVIEW_ROWS),
+    mapping,
+    unit: detectMeterUnit(headers[mapping.reading] ?? '', columnValues(sample, mapping.reading)),
+    dateOrder: detectDateOrder(sample.map(row => row[mapping.time] ?? ''))
+  };
+};
+
+// Mean daily consumption over a five-day week and a weekend.
+export const meanDailyEnergy = (load: MeasuredLoad) => {
+  const total = (profile: number[]) => profile.reduce((a, b) => a + b, 0);
+  return (total(load.weekday) * 5 + total(load.weekend) * 2) / 7;
+};
+
+const average = (totals: number[], counts: number[]) => totals.map((total, hour) => (counts[hour] ? total / counts[hour] : 0));
+
+// Turns a smart-meter log into mean hourly consumption for weekdays and
+// weekends. Energy readings are summed into each hour and power readings
+// averaged over it, then scaled up when readings are missing within the hour.
+export const importMeterFile = (
+  fileName: string,
+  text: string,
+  settings: MeterImportSettings,
+  timeZone: string,
+  mode: ImportMode
+): MeterImport => {
+  const { mapping, unit, dateOrder } = settings;
+  if (mapping.time < 0 || mapping.reading < 0) throw new Error('Choose the timestamp and reading columns');
+
+  const readings = readCsvTable(text).rows
+    .map(row => ({
+      timestamp: parseTimestamp(row[mapping.time] ?? '', dateOrder, timeZone),
+      value: (row[mapping.reading] ? Number(row[mapping.reading]) : NaN) * UNIT_SCALE[unit]
+    }))
+    .filter(reading => Number.isFinite(reading.timestamp) && Number.isFinite(reading.value))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (readings.length === 0) throw new Error(`No usable rows found in ${fileName}`);
+
+  const interval = Math.min(HOUR, medianInterval(readings.map(reading => reading.timestamp)));
+  const perHour = HOUR / interval;
+  const counts = new Map<number, number>();
+  readings.forEach(({ timestamp }) => {
+    const hour = Math.floor(timestamp / HOUR) * HOUR;
+    counts.set(hour, (counts.get(hour) ?? 0) + 1);
+  });
+  const hourly = resampleHourly(readings, { value: isEnergyUnit(unit) ? 'sum' : 'mean' }).map(({ timestamp, value }) => ({
+    timestamp,
+    energy: isEnergyUnit(unit) ? (value * perHour) / Math.min(perHour, counts.get(timestamp)) : value // kWh
+  }));
+
+  const totals = { weekday: new Array(HOURS_PER_DAY).fill(0), weekend: new Array(HOURS_PER_DAY).fill(0) };
+  const samples = { weekday: new Array(HOURS_PER_DAY).fill(0), weekend: new Array(HOURS_PER_DAY).fill(0) };
+  const days = new Set<string>();
+  hourly.forEach(({ timestamp, energy }) => {
+    const { date, hour } = localTime(timestamp, timeZone);
+    const { dayType } = loadContext(date);
+    totals[dayType][hour] += energy;
+    samples[dayType][hour] += 1;
+    days.add(date);
+  });
+
+  const weekday = average(totals.weekday, samples.weekday);
+  const hasWeekends = samples.weekend.some(count => count > 0);
+  const gaps = gapReport(hourly.map(point => point.timestamp));
+
+  return {
+    load: {
+      fileName,
+      mode,
+      weekday,
+      weekend: hasWeekends ? average(totals.weekend, samples.weekend) : weekday,
+      days: days.size,
+      completeness: gaps?.completeness ?? 0
+    },
+    gaps
+  };
+};
@@ -0,0 +1,21 @@
+const HOUR = 60 * 60 * 1000; // ms
+
+// Stand-in for an Open-Meteo forecast response, so the forecast path can be
+// exercised in any build and in tests without a network or a key. Answers
+// are deterministic for a given hour: a cloud bank drifting through every
+// 30 h, a diurnal temperature swing and afternoon-peaking wind.
+export const mockOpenMeteoForecast = (longitude: number, days = 3, now = Date.now()) => {
+  const start = Math.floor(now / HOUR) * HOUR + HOUR;
+  const time = Array.from({ length: days * 24 }, (_, i) => (start + i * HOUR) / 1000);
+  const solarHour = (t: number) => ((new Date(t * 1000).getUTCHours() + longitude / 15) % 24 + 24) % 24;
+  const swing = (t: number) => Math.cos(((solarHour(t) - 15) / 24) * 2 * Math.PI); // warmest mid-afternoon
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return {
+    hourly: {
+      time,
+      temperature_2m: time.map(t => round(26 + 6 * swing(t))),
+      cloud_cover: time.map(t => round(50 + 45 * Math.sin(((t * 1000) / (30 * HOUR)) * 2 * Math.PI))),
+      wind_speed_10m: time.map(t => round(3.5 + 2 * swing(t)))
+    }
+  };
+};
@@ -0,0 +1,226 @@
+import { z } from 'zod';
+import { createLocalStore } from '@/lib/local-store';
+import { apiError, fetchJson, toDataIssue, type DataIssue } from '@/lib/api-client';
+
+export const POWER_DAILY_URL = 'https://power.larc.nasa.gov/api/temporal/daily/point';
+export const POWER_CLIMATOLOGY_URL = 'https://power.larc.nasa.gov/api/temporal/climatology/point';
+export const POWER_HOURLY_URL = 'https://power.larc.nasa.gov/api/temporal/hourly/point';
+
+// NASA POWER daily values settle within a day, so anything older than this is
+// refetched when the network allows and flagged as stale when it does not
+export const POWER_CACHE_TTL = 12 * 60 * 60 * 1000; // ms
+
+// Long-term monthly means only change when NASA publishes a new release
+export const CLIMATOLOGY_CACHE_TTL = 30 * 24 * 60 * 60 * 1000; // ms
+
+export const POWER_SERVICE = 'NASA POWER';
+
+// POWER marks values it could not compute with this, also given in the response header
+export const POWER_FILL_VALUE = -999;
+
+export type DataSource = 'network' | 'cache';
+
+export type PowerTemporal = 'daily' | 'hourly' | 'climatology';
+
+export interface PowerRequest {
+  latitude: number;
+  longitude: number;
+  parameters: string[];
+  start: string; // YYYYMMDD
+  end: string; // YYYYMMDD
+}
+
+export type ClimatologyRequest = Omit<PowerRequest, 'start' | 'end'>;
+
+// The part of the POWER point response we read: parameter → YYYYMMDD (YYYYMMDDHH, or JAN..DEC, ANN) → value
+const powerPayloadSchema = z.object({
+  header: z.object({ fill_value: z.number().optional() }).optional(),
+  properties: z.object({
+    parameter: z.record(z.record(z.number()))
+  })
+});
+
+export type PowerPayload = z.infer<typeof powerPayloadSchema>;
+
+// Values removed from one parameter before it reached any model
+export interface ParameterScreening {
+  total: number;
+  fill: number; // POWER fill values
+  outliers: number; // outside the physically plausible range
+}
+
+export interface PowerResult {
+  payload: PowerPayload; // fill values and outliers removed
+  fetchedAt: string; // ISO timestamp of the network response
+  source: DataSource;
+  stale: boolean;
+  screening: Record<string, ParameterScreening>;
+  issue?: DataIssue; // why a cached response was served instead of a fresh one
+}
+
+interface CachedPowerResponse {
+  id: string; // series plus date range
+  series: string; // coordinates plus parameters
+  fetchedAt: string;
+  payload: PowerPayload;
+}
+
+export const POWER_PARAMETER_LABELS: Record<string, string> = {
+  ALLSKY_SFC_SW_DWN: 'solar irradiance',
+  T2M: 'temperature',
+  WS10M: 'wind speed'
+};
+
+// Anything outside these bounds is a glitch rather than weather
+const VALID_RANGES: Record<PowerTemporal, Record<string, [number, number]>> = {
+  daily: { ALLSKY_SFC_SW_DWN: [0, 12], T2M: [-60, 60], WS10M: [0, 40] }, // kWh/m²/day, °C, m/s
+  hourly: { ALLSKY_SFC_SW_DWN: [0, 1400], T2M: [-60, 60], WS10M: [0, 60] }, // Wh/m²
+  climatology: { ALLSKY_SFC_SW_DWN: [0, 12], T2M: [-60, 60], WS10M: [0, 40] }
+};
+
+const cache = createLocalStore<CachedPowerResponse>('power-cache');
+
+// Coordinates are rounded to ~1 km, well inside one POWER grid cell
+const seriesKey = (temporal: string, { latitude, longitude, parameters }: ClimatologyRequest) =>
+  `${temporal}:${latitude.toFixed(2)},${longitude.toFixed(2)}:${[...parameters].sort().join(',')}`;
+
+export const isStale = (fetchedAt: string, ttl = POWER_CACHE_TTL, now = Date.now()) =>
+  now - new Date(fetchedAt).getTime() > ttl;
+
+const baseQuery = ({ latitude, longitude, parameters }: ClimatologyRequest) =>
+  `parameters=${parameters.join(',')}&community=RE&longitude=${longitude}&latitude=${latitude}&format=JSON`;
+
+const latestForSeries = async (series: string) => {
+  const entries = (await cache.all()).filter(entry => entry.series === series);
+  return entries.sort((a, b) => b.fetchedAt.localeCompare(a.fetchedAt))[0];
+};
+
+// Only the newest response per series is kept, so the cache grows with the
+// number of locations rather than the number of days they were viewed
+const store = async (entry: CachedPowerResponse) => {
+  const older = (await cache.all()).filter(e => e.series === entry.series && e.id !== entry.id);
+  await cache.put(entry);
+  await Promise.all(older.map(e => cache.remove(e.id)));
+};
+
+// Drops fill values and implausible values so they never reach an average.
+// A parameter with nothing left is an error: no model can run on it.
+export const screenPowerPayload = (payload: PowerPayload, temporal: PowerTemporal) => {
+  const fillValue = payload.header?.fill_value ?? POWER_FILL_VALUE;
+  const screening: Record<string, ParameterScreening> = {};
+  const parameter = Object.fromEntries(
+    Object.entries(payload.properties.parameter).map(([name, values]) => {
+      const [min, max] = VALID_RANGES[temporal][name] ?? [-Infinity, Infinity];
+      const counts = { total: 0, fill: 0, outliers: 0 };
+      const kept = Object.entries(values).filter(([, value]) => {
+        counts.total += 1;
+        if (value === fillValue) counts.fill += 1;
+        else if (value < min || value > max) counts.outliers += 1;
+        else return true;
+        return false;
+      });
+      screening[name] = counts;
+      return [name, Object.fromEntries(kept)];
+    })
+  );
+
+  const empty = Object.keys(screening).find(name => {
+    const { total, fill, outliers } = screening[name];
+    return total > 0 && fill + outliers === total;
+  });
+  if (empty) {
+    throw apiError('fill-value', POWER_SERVICE,
+      `${POWER_SERVICE} has no valid ${temporal} ${POWER_PARAMETER_LABELS[empty] ?? empty} values for this location and period`);
+  }
+
+  return { payload: { ...payload, properties: { ...payload.properties, parameter } }, screening };
+};
+
+// One issue per parameter that lost values in screening.
+export const screeningIssues = (temporal: PowerTemporal, screening: Record<string, ParameterScreening>): DataIssue[] =>
+  Object.entries(screening)
+    .filter(([, { fill, outliers }]) => fill + outliers > 0)
+    .map(([name, { total, fill, outliers }]) => ({
+      category: 'fill-value' as const,
+      service: POWER_SERVICE,
+      message: `${fill + outliers} of ${total} ${temporal} ${POWER_PARAMETER_LABELS[name] ?? name} values left out` +
+        ` (${[fill && `${fill} missing`, outliers && `${outliers} out of range`].filter(Boolean).join(', ')})`
+    }));
+
+interface CachedFetch {
+  id: string;
+  series: string;
+  url: string;
+  ttl: number;
+  force: boolean;
+  temporal: PowerTemporal;
+}
+
+// Serves a fresh cached response when there is one, otherwise asks the API and
+// falls back to the newest cached response for the same series when the API
+// is unreachable, throttled or answers with something unusable. Responses are
+// cached as received and screened on every read.
+const cachedFetch = async ({ id, series, url, ttl, force, temporal }: CachedFetch): Promise<PowerResult> => {
+  const cached = await cache.get(id).catch(() => undefined);
+  if (cached && !force && !isStale(cached.fetchedAt, ttl)) {
+    return { ...screenPowerPayload(cached.payload, temporal), fetchedAt: cached.fetchedAt, source: 'cache', stale: false };
+  }
+
+  try {
+    const payload = await fetchJson(url, powerPayloadSchema, POWER_SERVICE);
+    const screened = screenPowerPayload(payload, temporal);
+    const fetchedAt = new Date().toISOString();
+    await store({ id, series, fetchedAt, payload }).catch(error =>
+      console.error('Failed to cache NASA POWER response:', error)
+    );
+    return { ...screened, fetchedAt, source: 'network', stale: false };
+  } catch (error) {
+    const fallback = cached ?? (await latestForSeries(series).catch(() => undefined));
+    if (!fallback) throw error;
+    return {
+      ...screenPowerPayload(fallback.payload, temporal),
+      fetchedAt: fallback.fetchedAt,
+      source: 'cache',
+      stale: isStale(fallback.fetchedAt, ttl),
+      issue: toDataIssue(error, POWER_SERVICE)
+    };
+  }
+};
+
+export const fetchPowerDaily = (request: PowerRequest, { force = false } = {}) => {
+  const series = seriesKey('daily', request);
+  return cachedFetch({
+    id: `${series}:${request.start}-${request.end}`,
+    series,
+    url: `${POWER_DAILY_URL}?${baseQuery(request)}&start=${request.start}&end=${request.end}`,
+    ttl: POWER_CACHE_TTL,
+    force,
+    temporal: 'daily'
+  });
+};
+
+// Hourly keys are requested in UTC so they can be placed on the site's clock
+// regardless of the local solar time POWER would otherwise use
+export const fetchPowerHourly = (request: PowerRequest, { force = false } = {}) => {
+  const series = seriesKey('hourly', request);
+  return cachedFetch({
+    id: `${series}:${request.start}-${request.end}`,
+    series,
+    url: `${POWER_HOURLY_URL}?${baseQuery(request)}&start=${request.start}&end=${request.end}&time-standard=UTC`,
+    ttl: POWER_CACHE_TTL,
+    force,
+    temporal: 'hourly'
+  });
+};
+
+export const fetchPowerClimatology = (request: ClimatologyRequest, { force = false } = {}) => {
+  const series = seriesKey('climatology', request);
+  return cachedFetch({
+    id: series,
+    series,
+    url: `${POWER_CLIMATOLOGY_URL}?${baseQuery(request)}`,
+    ttl: CLIMATOLOGY_CACHE_TTL,
+    force,
+    temporal: 'climatology'
+  });
+};
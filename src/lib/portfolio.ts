@@ -0,0 +1,100 @@
+import { DEFAULT_SYSTEM_CONFIG, perDay, simulateDispatch } from '@/lib/simulation';
+import { arrayCapacity } from '@/lib/pv';
+import { windFarmCapacity } from '@/lib/wind';
+import { DEFAULT_FINANCE_SETTINGS, financialModel } from '@/lib/finance';
+import { DEFAULT_INCENTIVES } from '@/lib/incentives';
+import { GRID_EMISSION_FACTOR } from '@/lib/emissions';
+import { assessFeasibility, type FeasibilityAssessment } from '@/lib/feasibility';
+import { analysisEnergyData, DEFAULT_ANALYSIS_MODE } from '@/lib/climatology';
+import { analysisResource } from '@/lib/hourly-series';
+import { DEFAULT_TARIFF, type Site } from '@/lib/sites';
+import { compareBills } from '@/lib/tariff';
+
+// Rule of thumb for sites without a saved sizing search
+const BACKUP_DAYS = 1.5; // battery sized for 36 hours of load
+const DAYS_PER_YEAR = 365;
+
+export interface SiteSummary {
+  site: Site;
+  feasibility: FeasibilityAssessment | null; // null until NASA data has been fetched
+  solarAverage: number | null; // kWh/m²/day
+  windAverage: number | null; // m/s
+  recommendedPv: number | null; // kWp
+  recommendedBattery: number | null; // kWh
+  sizingEstimated: boolean; // rule of thumb, as the site has no saved sizing search
+  payback: number | null; // discounted, years
+  co2Savings: number | null; // tonnes/year
+}
+
+// Runs the site's saved inputs through the same dispatch model as the dashboard.
+export const summariseSite = (site: Site): SiteSummary => {
+  const { location, energyConsumption, battery, tariff } = site;
+  const system = { ...DEFAULT_SYSTEM_CONFIG, ...site.system };
+  const energyData = analysisEnergyData(site.analysisMode ?? DEFAULT_ANALYSIS_MODE, site.energyData, site.climatology ?? null);
+  const typicalYear = energyData !== site.energyData;
+  if (!location || !energyData) {
+    return {
+      site,
+      feasibility: null,
+      solarAverage: null,
+      windAverage: null,
+      recommendedPv: null,
+      recommendedBattery: null,
+      sizingEstimated: false,
+      payback: null,
+      co2Savings: null
+    };
+  }
+
+  const resource = analysisResource(
+    energyData, site.hourly ?? null, location.latitude, location.longitude, typicalYear
+  );
+  const { summary, steps } = simulateDispatch({
+    latitude: location.latitude,
+    resource,
+    appliances: energyConsumption.appliances,
+    measuredLoad: energyConsumption.measuredLoad,
+    battery: { capacity: battery.capacity, currentCharge: battery.currentCharge },
+    system
+  });
+
+  const dailyLoad = perDay(summary.load + summary.shedLoad, summary.hours);
+  const pvCapacity = arrayCapacity(system.pv);
+  const specificYield = pvCapacity > 0 ? perDay(summary.solar, summary.hours) / pvCapacity : 0;
+  const renewableServed = perDay(summary.load - summary.gridImport - summary.unmetLoad, summary.hours);
+  const { annualSavings } = compareBills(steps, { ...DEFAULT_TARIFF, ...tariff }, system.gridConnected);
+  const generation = summary.solar + summary.wind;
+  const { discountedPayback } = financialModel({
+    pvCapacity,
+    windCapacity: windFarmCapacity(system.wind),
+    batteryCapacity: battery.capacity,
+    annualEnergy: renewableServed * DAYS_PER_YEAR,
+    solarShare: generation > 0 ? summary.solar / generation : 0,
+    annualSavings,
+    annualGeneration: perDay(generation, summary.hours) * DAYS_PER_YEAR,
+    settings: { ...DEFAULT_FINANCE_SETTINGS, ...site.finance },
+    incentives: { ...DEFAULT_INCENTIVES, ...site.incentives }
+  });
+
+  return {
+    site,
+    feasibility: assessFeasibility({
+      solarAverage: energyData.solar.average,
+      solarPeak: energyData.solar.peak,
+      windAverage: energyData.wind.average,
+      windPeak: energyData.wind.peak,
+      runtime: battery.runtime
+    }),
+    solarAverage: energyData.solar.average,
+    windAverage: energyData.wind.average,
+    ...(site.sizing
+      ? { recommendedPv: site.sizing.pvCapacity, recommendedBattery: site.sizing.battery, sizingEstimated: false }
+      : {
+        recommendedPv: specificYield > 0 ? dailyLoad / specificYield : null,
+        recommendedBattery: dailyLoad * BACKUP_DAYS,
+        sizingEstimated: true
+      }),
+    payback: discountedPayback,
+    co2Savings: (renewableServed * DAYS_PER_YEAR * GRID_EMISSION_FACTOR) / 1000
+  };
+};
@@ -0,0 +1,136 @@
+export interface PVArrayConfig {
+  panelCount: number;
+  panelRating: number; // Wp per panel at STC
+  tilt: number; // degrees from horizontal
+  azimuth: number; // compass degrees the array faces, 180 = south
+  moduleEfficiency: number; // fraction at STC
+  temperatureCoefficient: number; // fractional power change per °C, negative
+  noct: number; // nominal operating cell temperature, °C
+  inverterEfficiency: number; // fraction
+  systemLosses: number; // soiling, wiring, mismatch and shading, fraction
+}
+
+export interface PVHourInput {
+  day: number; // day of year, 1-366
+  hour: number; // apparent solar time at the start of the hour, 0-24
+  irradiance: number; // global horizontal, kWh/m² over the hour
+  temperature: number; // ambient air temperature (T2M), °C
+}
+
+export interface SolarPosition {
+  declination: number; // radians
+  hourAngle: number; // radians
+  cosZenith: number;
+}
+
+export const DEFAULT_PV_ARRAY: PVArrayConfig = {
+  panelCount: 12,
+  panelRating: 415,
+  tilt: 20,
+  azimuth: 180,
+  moduleEfficiency: 0.205,
+  temperatureCoefficient: -0.0035,
+  noct: 45,
+  inverterEfficiency: 0.96,
+  systemLosses: 0.14
+};
+
+const SOLAR_CONSTANT = 1.367; // kW/m²
+const GROUND_ALBEDO = 0.2;
+const STC_IRRADIANCE = 1; // kW/m²
+const STC_TEMPERATURE = 25; // °C
+const TAU_ALPHA = 0.9;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const arrayCapacity = (config: PVArrayConfig) =>
+  (config.panelCount * config.panelRating) / 1000;
+
+export const arrayArea = (config: PVArrayConfig) =>
+  config.moduleEfficiency > 0 ? arrayCapacity(config) / (config.moduleEfficiency * STC_IRRADIANCE) : 0;
+
+// Equation of time in minutes (Spencer), the gap between apparent and mean solar time
+export const equationOfTime = (day: number) => {
+  const b = toRadians((360 / 365) * (day - 1));
+  return 229.18 * (0.000075 + 0.001868 * Math.cos(b) - 0.032077 * Math.sin(b) -
+    0.014615 * Math.cos(2 * b) - 0.04089 * Math.sin(2 * b));
+};
+
+// Apparent solar time in hours at a UTC instant, from the longitude and the
+// equation of time; clock time differs by the zone offset as well
+export const solarHourAt = (timestamp: number, longitude: number) => {
+  const date = new Date(timestamp);
+  const midnight = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const day = Math.floor((midnight - Date.UTC(date.getUTCFullYear(), 0, 1)) / 86400000) + 1;
+  const hours = (timestamp - midnight) / 3600000 + longitude / 15 + equationOfTime(day) / 60;
+  return ((hours % 24) + 24) % 24;
+};
+
+// Sun position at the middle of the given hour (Cooper declination).
+export const solarPosition = (latitude: number, day: number, hour: number): SolarPosition => {
+  const declination = toRadians(23.45 * Math.sin(toRadians((360 / 365) * (284 + day))));
+  const hourAngle = toRadians(15 * (hour + 0.5 - 12));
+  const lat = toRadians(latitude);
+  const cosZenith = Math.sin(lat) * Math.sin(declination) +
+    Math.cos(lat) * Math.cos(declination) * Math.cos(hourAngle);
+
+  return { declination, hourAngle, cosZenith };
+};
+
+// Erbs diffuse fraction from the hourly clearness index.
+const diffuseFraction = (clearness: number) => {
+  if (clearness <= 0.22) return 1 - 0.09 * clearness;
+  if (clearness <= 0.8) {
+    return 0.9511 - 0.1604 * clearness + 4.388 * clearness ** 2 -
+      16.638 * clearness ** 3 + 12.336 * clearness ** 4;
+  }
+  return 0.165;
+};
+
+// Irradiance on the tilted array (kWh/m²) using the isotropic-sky model.
+export const planeOfArrayIrradiance = (
+  config: PVArrayConfig,
+  latitude: number,
+  input: Pick<PVHourInput, 'day' | 'hour' | 'irradiance'>
+) => {
+  const { declination, hourAngle, cosZenith } = solarPosition(latitude, input.day, input.hour);
+  if (cosZenith <= 0 || input.irradiance <= 0) return 0;
+
+  const extraterrestrial = SOLAR_CONSTANT * (1 + 0.033 * Math.cos(toRadians((360 * input.day) / 365))) * cosZenith;
+  const clearness = Math.min(1, input.irradiance / extraterrestrial);
+  const diffuse = input.irradiance * diffuseFraction(clearness);
+  const beam = input.irradiance - diffuse;
+
+  const lat = toRadians(latitude);
+  const tilt = toRadians(config.tilt);
+  const surfaceAzimuth = toRadians(config.azimuth - 180);
+  const cosIncidence =
+    Math.sin(declination) * Math.sin(lat) * Math.cos(tilt) -
+    Math.sin(declination) * Math.cos(lat) * Math.sin(tilt) * Math.cos(surfaceAzimuth) +
+    Math.cos(declination) * Math.cos(lat) * Math.cos(tilt) * Math.cos(hourAngle) +
+    Math.cos(declination) * Math.sin(lat) * Math.sin(tilt) * Math.cos(surfaceAzimuth) * Math.cos(hourAngle) +
+    Math.cos(declination) * Math.sin(tilt) * Math.sin(surfaceAzimuth) * Math.sin(hourAngle);
+
+  // Cap the beam gain near sunrise and sunset where cosZenith approaches zero
+  const beamRatio = Math.min(5, Math.max(0, cosIncidence) / cosZenith);
+
+  return beam * beamRatio +
+    diffuse * (1 + Math.cos(tilt)) / 2 +
+    input.irradiance * GROUND_ALBEDO * (1 - Math.cos(tilt)) / 2;
+};
+
+// NOCT cell temperature model (Duffie & Beckman).
+export const cellTemperature = (config: PVArrayConfig, ambient: number, poaIrradiance: number) =>
+  ambient + ((config.noct - 20) / 0.8) * poaIrradiance * (1 - config.moduleEfficiency / TAU_ALPHA);
+
+// AC energy delivered by the array during one hour, in kWh.
+export const pvHourlyOutput = (config: PVArrayConfig, latitude: number, input: PVHourInput) => {
+  const poa = planeOfArrayIrradiance(config, latitude, input);
+  if (poa <= 0) return 0;
+
+  const temperatureFactor = 1 + config.temperatureCoefficient *
+    (cellTemperature(config, input.temperature, poa) - STC_TEMPERATURE);
+  const dc = arrayArea(config) * poa * config.moduleEfficiency * Math.max(0, temperatureFactor);
+
+  return dc * (1 - config.systemLosses) * config.inverterEfficiency;
+};
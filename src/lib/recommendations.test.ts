@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_RECOMMENDATION_RULES, configureRules, evaluateConditions, evaluateRecommendations, fillTemplate, rulePrice,
+  type RecommendationInputs, type RecommendationRule
+} from '@/lib/recommendations';
+import { GRID_EMISSION_FACTOR } from '@/lib/emissions';
+
+// A quiet day: no rule's conditions hold
+const INPUTS: RecommendationInputs = {
+  solarCurrent: 4,
+  solarAverage: 3,
+  windCurrent: 4,
+  windAverage: 2,
+  batteryPercentage: 80,
+  batteryRoom: 2,
+  dailyDemand: 10,
+  dailySolar: 6,
+  dailyWind: 1,
+  dailyGridImport: 0,
+  dailyShed: 0,
+  gridCost: 8,
+  hour: 12
+};
+
+const rule = (changes: Partial<RecommendationRule>): RecommendationRule => ({
+  id: 'test',
+  type: 'grid',
+  priority: 'low',
+  when: [],
+  message: 'Test',
+  action: 'Test',
+  timeframe: 'Now',
+  impact: () => 1,
+  ...changes
+});
+
+describe('evaluateConditions', () => {
+  it('explains each condition that holds', () => {
+    const triggers = evaluateConditions(
+      rule({ when: [{ input: 'batteryPercentage', op: '<', value: 90 }] }),
+      INPUTS
+    );
+    expect(triggers).toHaveLength(1);
+    expect(triggers[0].actual).toBe(80);
+    expect(triggers[0].explanation).toBe('Battery charge 80.0% < 90.0%');
+  });
+
+  it('fails when any condition fails', () => {
+    const triggers = evaluateConditions(
+      rule({ when: [{ input: 'batteryPercentage', op: '<', value: 90 }, { input: 'hour', op: '>=', value: 18 }] }),
+      INPUTS
+    );
+    expect(triggers).toBeNull();
+  });
+
+  it('never fires on a missing value', () => {
+    const triggers = evaluateConditions(
+      rule({ when: [{ input: 'solarCurrent', op: '<', value: 3 }] }),
+      { ...INPUTS, solarCurrent: NaN }
+    );
+    expect(triggers).toBeNull();
+  });
+});
+
+describe('fillTemplate', () => {
+  it('rounds to the requested decimals and leaves unknown names', () => {
+    expect(fillTemplate('{energy:0} kWh, {cost} ₹, {other}', { energy: 2.6, cost: 3.14159 })).toBe('3 kWh, 3.1 ₹, {other}');
+  });
+});
+
+describe('evaluateRecommendations', () => {
+  it('fires nothing on a quiet day', () => {
+    expect(evaluateRecommendations(INPUTS)).toEqual([]);
+  });
+
+  it('caps charging at the battery headroom', () => {
+    const [recommendation] = evaluateRecommendations({ ...INPUTS, solarCurrent: 6, batteryPercentage: 40 });
+    expect(recommendation.ruleId).toBe('solar-charging');
+    expect(recommendation.impact.energy).toBe(2);
+    expect(recommendation.action).toBe('Maximize solar charging to store up to 2.0 kWh');
+    expect(recommendation.timeframe).toBe('Next 2-4 hours');
+  });
+
+  it('prices impact at the flat rate and converts it to emissions', () => {
+    const inputs = { ...INPUTS, dailyGridImport: 5 };
+    const [recommendation] = evaluateRecommendations(inputs);
+    expect(recommendation.ruleId).toBe('grid-emissions');
+    expect(recommendation.impact).toEqual({ energy: 5, cost: 40, emissions: 5 * GRID_EMISSION_FACTOR });
+  });
+
+  it('sorts by priority, then by energy at stake', () => {
+    const rules = [
+      rule({ id: 'small', priority: 'high', impact: () => 1 }),
+      rule({ id: 'urgent', priority: 'critical', impact: () => 1 }),
+      rule({ id: 'large', priority: 'high', impact: () => 5 })
+    ];
+    expect(evaluateRecommendations(INPUTS, rules).map(r => r.ruleId)).toEqual(['urgent', 'large', 'small']);
+  });
+
+  it('skips disabled rules', () => {
+    const rules = configureRules({ 'battery-critical': { enabled: false } });
+    const fired = evaluateRecommendations({ ...INPUTS, batteryPercentage: 10 }, rules).map(r => r.ruleId);
+    expect(fired).not.toContain('battery-critical');
+    expect(evaluateRecommendations({ ...INPUTS, batteryPercentage: 10 }).map(r => r.ruleId)).toContain('battery-critical');
+  });
+});
+
+describe('rulePrice', () => {
+  // ₹6 off-peak, ₹12 from 18:00
+  const prices = Array.from({ length: 24 }, (_, hour) => (hour >= 18 ? 12 : 6));
+
+  it('falls back to the reference rate without hourly prices', () => {
+    expect(rulePrice(rule({}), INPUTS)).toBe(8);
+  });
+
+  it('averages the whole day for rules without hours', () => {
+    expect(rulePrice(rule({}), INPUTS, prices)).toBe(7.5);
+  });
+
+  it('uses the time-of-day rate for the hours the rule targets', () => {
+    const solar = DEFAULT_RECOMMENDATION_RULES.find(r => r.id === 'solar-charging');
+    expect(rulePrice(solar, INPUTS, prices)).toBe(12);
+    const [recommendation] = evaluateRecommendations({ ...INPUTS, solarCurrent: 6, batteryPercentage: 40 }, undefined, prices);
+    expect(recommendation.impact.cost).toBe(24);
+  });
+});
@@ -0,0 +1,267 @@
+import type { BatteryState, EnergyData } from '@/types/energy';
+import { perDay, type DispatchSummary } from '@/lib/simulation';
+import { GRID_EMISSION_FACTOR } from '@/lib/emissions';
+
+export type RecommendationType = 'solar' | 'wind' | 'battery' | 'grid' | 'economic' | 'environmental';
+export type RecommendationPriority = 'critical' | 'high' | 'medium' | 'low';
+
+// Everything a rule can test or quote, as plain numbers
+export interface RecommendationInputs {
+  solarCurrent: number; // kWh/m²/day, latest day
+  solarAverage: number;
+  windCurrent: number; // m/s, latest day
+  windAverage: number;
+  batteryPercentage: number; // %
+  batteryRoom: number; // kWh the battery can still take
+  dailyDemand: number; // kWh/day from the dispatch simulation, shed load included
+  dailySolar: number; // kWh/day
+  dailyWind: number;
+  dailyGridImport: number;
+  dailyShed: number; // shed and unmet load, kWh/day
+  gridCost: number; // ₹/kWh, the tariff's reference rate
+  hour: number; // 0-23, local
+}
+
+export type RecommendationInput = keyof RecommendationInputs;
+
+export const RECOMMENDATION_INPUTS: Record<RecommendationInput, { label: string; unit: string }> = {
+  solarCurrent: { label: 'Latest solar irradiance', unit: 'kWh/m²/day' },
+  solarAverage: { label: 'Average solar irradiance', unit: 'kWh/m²/day' },
+  windCurrent: { label: 'Latest wind speed', unit: 'm/s' },
+  windAverage: { label: 'Average wind speed', unit: 'm/s' },
+  batteryPercentage: { label: 'Battery charge', unit: '%' },
+  batteryRoom: { label: 'Battery headroom', unit: 'kWh' },
+  dailyDemand: { label: 'Daily demand', unit: 'kWh' },
+  dailySolar: { label: 'Daily solar generation', unit: 'kWh' },
+  dailyWind: { label: 'Daily wind generation', unit: 'kWh' },
+  dailyGridImport: { label: 'Daily grid import', unit: 'kWh' },
+  dailyShed: { label: 'Daily shed or unmet load', unit: 'kWh' },
+  gridCost: { label: 'Grid tariff', unit: '₹/kWh' },
+  hour: { label: 'Hour of day', unit: 'h' }
+};
+
+export type ConditionOperator = '<' | '<=' | '>' | '>=';
+
+export interface RuleCondition {
+  input: RecommendationInput;
+  op: ConditionOperator;
+  value: number;
+}
+
+// Energy the recommended action moves, saves or protects, with its cost at the
+// tariff's prices for the hours the rule targets and its grid emissions
+export interface RecommendationImpact {
+  energy: number; // kWh/day
+  cost: number; // ₹/day
+  emissions: number; // kg CO₂/day
+}
+
+// A rule fires when all of its conditions hold. Message, action and timeframe
+// are templates: {input} is replaced by that input's value and {energy},
+// {cost} and {emissions} by the impact; {name:N} rounds to N decimals.
+export interface RecommendationRule {
+  id: string;
+  type: RecommendationType;
+  priority: RecommendationPriority;
+  when: RuleCondition[];
+  message: string;
+  action: string;
+  timeframe: string | ((inputs: RecommendationInputs) => string);
+  impact: (inputs: RecommendationInputs) => number; // kWh/day
+  hours?: number[]; // hours of day the energy would otherwise be bought; all day when omitted
+  enabled?: boolean; // defaults to true
+}
+
+export interface RecommendationTrigger extends RuleCondition {
+  actual: number;
+  explanation: string; // e.g. "Battery charge 18% < 20%"
+}
+
+export interface Recommendation {
+  ruleId: string;
+  type: RecommendationType;
+  priority: RecommendationPriority;
+  message: string;
+  action: string;
+  timeframe: string;
+  impact: RecommendationImpact;
+  triggers: RecommendationTrigger[];
+}
+
+export const PRIORITY_ORDER: RecommendationPriority[] = ['critical', 'high', 'medium', 'low'];
+
+const room = (inputs: RecommendationInputs, energy: number) => Math.max(0, Math.min(energy, inputs.batteryRoom));
+
+// Stored energy displaces grid power in the evening and overnight
+const EVENING_HOURS = [18, 19, 20, 21, 22, 23];
+
+export const DEFAULT_RECOMMENDATION_RULES: RecommendationRule[] = [
+  {
+    id: 'solar-charging',
+    type: 'solar',
+    priority: 'critical',
+    when: [{ input: 'solarCurrent', op: '>', value: 5 }, { input: 'batteryPercentage', op: '<', value: 50 }],
+    message: 'Excellent solar conditions detected',
+    action: 'Maximize solar charging to store up to {energy:1} kWh',
+    timeframe: ({ hour }) => (hour >= 6 && hour <= 18 ? 'Next 2-4 hours' : 'Tomorrow 10AM-2PM'),
+    impact: inputs => room(inputs, inputs.dailySolar),
+    hours: EVENING_HOURS
+  },
+  {
+    id: 'wind-charging',
+    type: 'wind',
+    priority: 'high',
+    when: [{ input: 'windCurrent', op: '>', value: 5 }, { input: 'batteryPercentage', op: '<', value: 70 }],
+    message: 'Strong wind speeds available',
+    action: 'Activate wind turbine charging to store up to {energy:1} kWh',
+    timeframe: 'Next 6 hours',
+    impact: inputs => room(inputs, inputs.dailyWind),
+    hours: EVENING_HOURS
+  },
+  {
+    id: 'renewable-savings',
+    type: 'economic',
+    priority: 'medium',
+    when: [{ input: 'solarAverage', op: '>', value: 4 }, { input: 'windAverage', op: '>', value: 3 }],
+    message: 'Potential daily savings: ₹{cost:0}',
+    action: 'Optimize renewable mix for maximum ROI',
+    timeframe: 'Daily optimization',
+    impact: ({ dailySolar, dailyWind }) => dailySolar + dailyWind
+  },
+  {
+    id: 'grid-emissions',
+    type: 'environmental',
+    priority: 'medium',
+    when: [{ input: 'dailyGridImport', op: '>', value: 0.5 / GRID_EMISSION_FACTOR }],
+    message: 'Reduce {emissions:1} kg CO₂ daily',
+    action: 'Cover the remaining {dailyGridImport:1} kWh of grid import with renewables',
+    timeframe: 'Continuous',
+    impact: ({ dailyGridImport }) => dailyGridImport
+  },
+  {
+    id: 'battery-critical',
+    type: 'battery',
+    priority: 'critical',
+    when: [{ input: 'batteryPercentage', op: '<', value: 20 }],
+    message: 'Critical battery level detected',
+    action: 'Switch to grid backup immediately',
+    timeframe: 'Immediate',
+    impact: ({ dailyDemand }) => dailyDemand
+  },
+  {
+    id: 'low-renewables',
+    type: 'grid',
+    priority: 'high',
+    when: [{ input: 'solarCurrent', op: '<', value: 3 }, { input: 'windCurrent', op: '<', value: 3 }],
+    message: 'Low renewable availability',
+    action: 'Use grid power during off-peak hours',
+    timeframe: 'Next 12 hours',
+    impact: ({ dailyGridImport, dailyShed }) => dailyGridImport + dailyShed
+  }
+];
+
+// Per-deployment changes to the default rules, keyed by rule id
+export type RuleOverrides = Record<string, Partial<Omit<RecommendationRule, 'id'>>>;
+
+export const configureRules = (
+  overrides: RuleOverrides,
+  extra: RecommendationRule[] = [],
+  rules = DEFAULT_RECOMMENDATION_RULES
+): RecommendationRule[] => [
+  ...rules.map(rule => ({ ...rule, ...overrides[rule.id] })),
+  ...extra
+];
+
+// Resource figures should come from the same series the dispatch ran on
+export const recommendationInputs = ({
+  energy, battery, summary, gridCost, hour = new Date().getHours()
+}: {
+  energy: EnergyData;
+  battery: BatteryState;
+  summary: DispatchSummary;
+  gridCost: number;
+  hour?: number;
+}): RecommendationInputs => ({
+  solarCurrent: energy.solar.current,
+  solarAverage: energy.solar.average,
+  windCurrent: energy.wind.current,
+  windAverage: energy.wind.average,
+  batteryPercentage: battery.percentage,
+  batteryRoom: Math.max(0, battery.capacity - battery.currentCharge),
+  dailyDemand: perDay(summary.load + summary.shedLoad, summary.hours),
+  dailySolar: perDay(summary.solar, summary.hours),
+  dailyWind: perDay(summary.wind, summary.hours),
+  dailyGridImport: perDay(summary.gridImport, summary.hours),
+  dailyShed: perDay(summary.shedLoad + summary.unmetLoad, summary.hours),
+  gridCost,
+  hour
+});
+
+const COMPARE: Record<ConditionOperator, (actual: number, value: number) => boolean> = {
+  '<': (actual, value) => actual < value,
+  '<=': (actual, value) => actual <= value,
+  '>': (actual, value) => actual > value,
+  '>=': (actual, value) => actual >= value
+};
+
+const formatValue = (value: number, unit: string, digits = 1) =>
+  `${value.toFixed(digits)}${unit === '%' ? '%' : ` ${unit}`}`;
+
+// The rule's conditions with the values that satisfied them, or null when any fails
+export const evaluateConditions = (rule: RecommendationRule, inputs: RecommendationInputs): RecommendationTrigger[] | null => {
+  const triggers: RecommendationTrigger[] = [];
+  for (const condition of rule.when) {
+    const actual = inputs[condition.input];
+    if (!Number.isFinite(actual) || !COMPARE[condition.op](actual, condition.value)) return null;
+    const { label, unit } = RECOMMENDATION_INPUTS[condition.input];
+    triggers.push({
+      ...condition,
+      actual,
+      explanation: `${label} ${formatValue(actual, unit)} ${condition.op} ${formatValue(condition.value, unit)}`
+    });
+  }
+  return triggers;
+};
+
+export const fillTemplate = (template: string, values: Record<string, number>) =>
+  template.replace(/\{(\w+)(?::(\d))?\}/g, (match, name: string, digits?: string) =>
+    name in values ? values[name].toFixed(digits === undefined ? 1 : Number(digits)) : match);
+
+// Mean ₹/kWh over the rule's hours, from the tariff's price for each hour of
+// the day; a flat tariff at the reference rate when no prices are given
+export const rulePrice = (rule: RecommendationRule, inputs: RecommendationInputs, prices?: number[]) => {
+  if (!prices?.length) return inputs.gridCost;
+  const hours = rule.hours?.length ? rule.hours : prices.map((_, hour) => hour);
+  return hours.reduce((sum, hour) => sum + (prices[hour % prices.length] ?? 0), 0) / hours.length;
+};
+
+// Fires every enabled rule whose conditions hold, most urgent first and then
+// by the energy at stake.
+export const evaluateRecommendations = (
+  inputs: RecommendationInputs,
+  rules: RecommendationRule[] = DEFAULT_RECOMMENDATION_RULES,
+  prices?: number[] // ₹/kWh for each hour of the day, e.g. from hourlyPrices
+): Recommendation[] =>
+  rules
+    .filter(rule => rule.enabled !== false)
+    .flatMap(rule => {
+      const triggers = evaluateConditions(rule, inputs);
+      if (!triggers) return [];
+
+      const energy = Math.max(0, rule.impact(inputs));
+      const impact = { energy, cost: energy * rulePrice(rule, inputs, prices), emissions: energy * GRID_EMISSION_FACTOR };
+      const values = { ...inputs, ...impact };
+      const timeframe = typeof rule.timeframe === 'function' ? rule.timeframe(inputs) : rule.timeframe;
+      return [{
+        ruleId: rule.id,
+        type: rule.type,
+        priority: rule.priority,
+        message: fillTemplate(rule.message, values),
+        action: fillTemplate(rule.action, values),
+        timeframe: fillTemplate(timeframe, values),
+        impact,
+        triggers
+      }];
+    })
+    .sort((a, b) =>
+      PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority) || b.impact.energy - a.impact.energy);
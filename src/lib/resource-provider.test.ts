@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { createUploadProvider, resourceProvider, syntheticProvider, type ResourceRequest } from '@/lib/resource-provider';
+import { generateSyntheticSeries } from '@/lib/synthetic-resource';
+import type { UploadedWeather } from '@/lib/weather-file';
+import { siteProvenance, type Site } from '@/lib/sites';
+
+const REQUEST: ResourceRequest = {
+  latitude: 12.97,
+  longitude: 77.59,
+  timeZone: 'Asia/Kolkata',
+  start: '2024-03-01',
+  end: '2024-03-07'
+};
+
+const UPLOAD: UploadedWeather = {
+  fileName: 'logger.csv',
+  format: 'csv',
+  mode: 'replace',
+  uploadedAt: '2024-04-01T09:30:00.000Z',
+  series: generateSyntheticSeries({ ...REQUEST, start: '2024-01-01', end: '2024-01-10' }),
+  gaps: null
+};
+
+describe('provider provenance', () => {
+  it('cites the synthetic generator and the days it produced', async () => {
+    const { provenance, hourly } = await syntheticProvider.fetch(REQUEST);
+    expect(provenance).toMatchObject({
+      provider: 'synthetic',
+      source: 'Synthetic generator at 12.97, 77.59',
+      resolution: 'hourly',
+      start: '2024-03-01'
+    });
+    expect(provenance.end >= '2024-03-07').toBe(true);
+    expect(hourly.points.length).toBeGreaterThan(0);
+  });
+
+  it('cites an uploaded file over its own range, as of the upload', async () => {
+    const { provenance } = await createUploadProvider(UPLOAD).fetch(REQUEST);
+    expect(provenance).toMatchObject({
+      provider: 'upload',
+      source: 'logger.csv',
+      resolution: 'hourly',
+      start: '2024-01-01',
+      fetchedAt: UPLOAD.uploadedAt
+    });
+  });
+
+  it('reports a missing upload as an input problem', async () => {
+    await expect(resourceProvider('upload').fetch(REQUEST)).rejects.toMatchObject({ category: 'input' });
+  });
+});
+
+describe('siteProvenance', () => {
+  const site = (changes: Partial<Site>) => ({ id: 'a', name: 'A', ...changes }) as Site;
+
+  it('keeps the recorded provenance, even when it is null', () => {
+    expect(siteProvenance(site({ provenance: null, energyDataFetchedAt: '2024-01-01T00:00:00Z' }))).toBeNull();
+  });
+
+  it('treats older saves as NASA POWER daily data', () => {
+    const daily = [{ date: '2024-01-01', value: 5 }, { date: '2024-01-31', value: 6 }];
+    const provenance = siteProvenance(site({
+      energyData: { solar: { daily } } as Site['energyData'],
+      energyDataFetchedAt: '2024-02-01T00:00:00Z'
+    }));
+    expect(provenance).toEqual({
+      provider: 'nasa-power',
+      source: 'NASA POWER (community RE)',
+      resolution: 'daily',
+      start: '2024-01-01',
+      end: '2024-01-31',
+      fetchedAt: '2024-02-01T00:00:00Z'
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import type { DailyValue, EnergyData } from '@/types/energy';
+import {
+  POWER_SERVICE, fetchPowerClimatology, fetchPowerDaily, fetchPowerHourly, screeningIssues, type DataSource,
+  type PowerResult, type PowerTemporal
+} from '@/lib/nasa-power';
+import { apiError, toDataIssue, type DataIssue } from '@/lib/api-client';
+import { CLIMATOLOGY_PARAMETERS, parseClimatology, type MonthlyClimatology } from '@/lib/climatology';
+import {
+  HOURLY_PARAMETERS, aggregateSeries, localTime, parsePowerHourly, type HourlySeries
+} from '@/lib/hourly-series';
+import { generateSyntheticSeries } from '@/lib/synthetic-resource';
+import type { UploadedWeather } from '@/lib/weather-file';
+import { checkedEnergyData } from '@/lib/data-quality';
+import {
+  calibrateClimatology, calibrateEnergyData, calibrateHourly, calibrationFactors
+} from '@/lib/calibration';
+
+export type ProviderId = 'nasa-power' | 'upload' | 'synthetic';
+
+export type Resolution = 'hourly' | 'daily' | 'monthly';
+
+export const DEFAULT_PROVIDER: ProviderId = 'nasa-power';
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  'nasa-power': 'NASA POWER',
+  upload: 'Uploaded weather file',
+  synthetic: 'Synthetic (demo)'
+};
+
+export interface ResourceRequest {
+  latitude: number;
+  longitude: number;
+  timeZone: string;
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+  force?: boolean; // bypass any cache
+  interpolate?: boolean; // fill gaps between valid days
+}
+
+// Where a result came from, kept with the site so reports can cite it
+export interface Provenance {
+  provider: ProviderId;
+  source: string; // human-readable origin, e.g. a file name
+  resolution: Resolution; // finest resolution the models receive
+  start: string; // YYYY-MM-DD, first day covered
+  end: string; // YYYY-MM-DD, last day covered
+  fetchedAt: string; // ISO timestamp of the fetch, upload or generation
+}
+
+export interface ResourceResult {
+  energyData: EnergyData;
+  hourly: HourlySeries | null;
+  climatology: MonthlyClimatology | null;
+  provenance: Provenance;
+  source?: DataSource; // set by providers that cache network responses
+  stale?: boolean;
+  issues?: DataIssue[]; // problems that degraded the result without stopping it
+}
+
+export interface ResourceProvider {
+  id: ProviderId;
+  label: string;
+  fetch: (request: ResourceRequest) => Promise<ResourceResult>;
+}
+
+// A daily total from fewer logged hours than this would understate the day
+const MIN_DAY_HOURS = 20;
+
+const seriesRange = (series: HourlySeries) => {
+  const { points, timeZone } = series;
+  return {
+    start: points.length ? localTime(points[0].timestamp, timeZone).date : '',
+    end: points.length ? localTime(points[points.length - 1].timestamp, timeZone).date : ''
+  };
+};
+
+// Daily irradiation totals and mean wind and temperature from an hourly series.
+// Days with too few hours count as missing.
+export const energyDataFromHourly = (series: HourlySeries, interpolate = false): EnergyData => {
+  const days = aggregateSeries(series, 'day').filter(day => day.hours >= MIN_DAY_HOURS);
+  const daily = (select: (day: typeof days[number]) => number) => days.map(day => ({ date: day.key, value: select(day) }));
+  const { start, end } = seriesRange(series);
+  return checkedEnergyData(
+    { solar: daily(day => day.irradiance), wind: daily(day => day.windSpeed), temperature: daily(day => day.temperature) },
+    start,
+    end,
+    interpolate
+  );
+};
+
+const toDaily = (parameter: Record<string, number> = {}): DailyValue[] =>
+  Object.entries(parameter).map(([date, value]) => ({
+    date: date.replace(/(\d{4})(\d{2})(\d{2})/, '$1-$2-$3'),
+    value: Number(value)
+  }));
+
+const compact = (date: string) => date.replace(/-/g, '');
+
+const optional = <T>(label: string, request: Promise<T>, issues: DataIssue[]) =>
+  request.catch(error => {
+    const issue = toDataIssue(error, POWER_SERVICE);
+    issues.push({ ...issue, message: `No ${label}: ${issue.message}` });
+    return null;
+  });
+
+// Screening notes, plus the reason when a cached response stood in for a fresh one
+const resultIssues = (temporal: PowerTemporal, result: PowerResult | null): DataIssue[] =>
+  result ? [...(result.issue ? [result.issue] : []), ...screeningIssues(temporal, result.screening)] : [];
+
+// Parallel requests to one service tend to fail for the same reason
+const uniqueIssues = (issues: DataIssue[]) =>
+  issues.filter((issue, index) => issues.findIndex(other => other.message === issue.message) === index);
+
+// Daily solar, temperature and wind for the window, plus the long-term means
+// and measured hours when POWER can supply them.
+export const nasaPowerProvider: ResourceProvider = {
+  id: 'nasa-power',
+  label: PROVIDER_LABELS['nasa-power'],
+  fetch: async ({ latitude, longitude, timeZone, start, end, force = false, interpolate = false }) => {
+    const range = { latitude, longitude, start: compact(start), end: compact(end) };
+    const options = { force };
+    const failures: DataIssue[] = [];
+    const [solarResult, windResult, climatologyResult, hourlyResult] = await Promise.all([
+      fetchPowerDaily({ ...range, parameters: ['ALLSKY_SFC_SW_DWN', 'T2M'] }, options),
+      fetchPowerDaily({ ...range, parameters: ['WS10M'] }, options),
+      optional('climatology', fetchPowerClimatology({ latitude, longitude, parameters: CLIMATOLOGY_PARAMETERS }, options), failures),
+      optional('hourly data', fetchPowerHourly({ ...range, parameters: HOURLY_PARAMETERS }, options), failures)
+    ]);
+
+    const solar = solarResult.payload.properties.parameter;
+    const wind = windResult.payload.properties.parameter;
+    const hourly = hourlyResult ? { timeZone, points: parsePowerHourly(hourlyResult.payload) } : null;
+    const energyData = checkedEnergyData(
+      { solar: toDaily(solar.ALLSKY_SFC_SW_DWN), wind: toDaily(wind.WS10M), temperature: toDaily(solar.T2M) },
+      start,
+      end,
+      interpolate
+    );
+    const solarDaily = energyData.solar.daily;
+
+    // The older of the two daily responses decides how fresh the data is
+    const fetchedAt = [solarResult.fetchedAt, windResult.fetchedAt].sort()[0];
+
+    return {
+      energyData,
+      hourly,
+      climatology: climatologyResult ? parseClimatology(climatologyResult.payload) : null,
+      provenance: {
+        provider: 'nasa-power',
+        source: 'NASA POWER (community RE)',
+        resolution: hourly?.points.length ? 'hourly' : 'daily',
+        start: solarDaily[0]?.date ?? start,
+        end: solarDaily[solarDaily.length - 1]?.date ?? end,
+        fetchedAt
+      },
+      source: solarResult.source === 'cache' || windResult.source === 'cache' ? 'cache' : 'network',
+      stale: solarResult.stale || windResult.stale,
+      issues: uniqueIssues([
+        ...resultIssues('daily', solarResult),
+        ...resultIssues('daily', windResult),
+        ...resultIssues('climatology', climatologyResult),
+        ...resultIssues('hourly', hourlyResult),
+        ...failures
+      ])
+    };
+  }
+};
+
+// Same site and dates always produce the same series.
+export const syntheticProvider: ResourceProvider = {
+  id: 'synthetic',
+  label: PROVIDER_LABELS.synthetic,
+  fetch: async ({ latitude, longitude, timeZone, start, end, interpolate }) => {
+    const hourly = generateSyntheticSeries({ latitude, longitude, timeZone, start, end });
+    return {
+      energyData: energyDataFromHourly(hourly, interpolate),
+      hourly,
+      climatology: null,
+      provenance: {
+        provider: 'synthetic',
+        source: `Synthetic generator at ${latitude.toFixed(2)}, ${longitude.toFixed(2)}`,
+        resolution: 'hourly',
+        ...seriesRange(hourly),
+        fetchedAt: new Date().toISOString()
+      }
+    };
+  }
+};
+
+const formatFactor = (factor: number) => `×${factor.toFixed(2)}`;
+
+// Replacing serves the whole uploaded file; a TMY covers its own typical year,
+// so the requested window is ignored. Calibrating fetches NASA POWER for the
+// window and scales it to the level the logger measured.
+export const createUploadProvider = (upload: UploadedWeather | null): ResourceProvider => ({
+  id: 'upload',
+  label: PROVIDER_LABELS.upload,
+  fetch: async (request) => {
+    if (!upload) throw apiError('input', PROVIDER_LABELS.upload, 'Upload a weather file to use this data source');
+
+    if (upload.mode === 'calibrate') {
+      const reference = await nasaPowerProvider.fetch(request);
+      const factors = calibrationFactors(reference.energyData, energyDataFromHourly(upload.series));
+      const temperature = `${factors.temperature >= 0 ? '+' : ''}${factors.temperature.toFixed(1)} °C`;
+      return {
+        ...reference,
+        energyData: calibrateEnergyData(reference.energyData, factors),
+        hourly: reference.hourly && calibrateHourly(reference.hourly, factors),
+        climatology: reference.climatology && calibrateClimatology(reference.climatology, factors),
+        provenance: {
+          ...reference.provenance,
+          provider: 'upload',
+          source: `${reference.provenance.source} calibrated to ${upload.fileName} ` +
+            `(solar ${formatFactor(factors.solar)}, wind ${formatFactor(factors.wind)}, ${temperature}, ` +
+            `${factors.days} ${factors.overlapping ? 'shared' : 'logged'} days)`
+        }
+      };
+    }
+
+    return {
+      energyData: energyDataFromHourly(upload.series, request.interpolate),
+      hourly: upload.series,
+      climatology: null,
+      provenance: {
+        provider: 'upload',
+        source: upload.fileName,
+        resolution: 'hourly',
+        ...seriesRange(upload.series),
+        fetchedAt: upload.uploadedAt
+      }
+    };
+  }
+});
+
+export const resourceProvider = (id: ProviderId, upload: UploadedWeather | null = null): ResourceProvider => {
+  switch (id) {
+    case 'upload':
+      return createUploadProvider(upload);
+    case 'synthetic':
+      return syntheticProvider;
+    default:
+      return nasaPowerProvider;
+  }
+};
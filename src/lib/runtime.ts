@@ -0,0 +1,107 @@
+import { HOURS_PER_DAY } from '@/lib/load-profile';
+import { chargeBattery, dischargeBattery, reserveFloor, type BatteryCondition, type BatterySpec } from '@/lib/battery';
+
+export type RuntimeScenarioId = 'night' | 'average-day' | 'critical';
+
+export interface RuntimePoint {
+  elapsed: number; // hours since the scenario start
+  percentage: number; // state of charge, % of nominal capacity
+}
+
+export interface RuntimeScenario {
+  id: RuntimeScenarioId;
+  label: string;
+  description: string;
+  runtime: number; // hours until the battery can no longer carry the load
+  sustained: boolean; // true when the battery outlasts the horizon
+  curve: RuntimePoint[];
+}
+
+export interface RuntimeInput {
+  spec: BatterySpec;
+  capacity: number; // kWh nominal
+  stored: number; // kWh
+  load: number[]; // 24 hourly values, kW
+  generation?: number[]; // 24 hourly values, kWh; none when omitted
+  startHour: number;
+  horizon?: number; // hours
+}
+
+export const RUNTIME_HORIZON = 72;
+export const NIGHT_START_HOUR = 18;
+
+// Steps the battery through the repeating daily load and generation profiles
+// until it can no longer cover the deficit, and records its state of charge
+// along the way. Runtime includes the covered fraction of the final hour.
+export const estimateRuntime = ({
+  spec,
+  capacity,
+  stored,
+  load,
+  generation,
+  startHour,
+  horizon = RUNTIME_HORIZON
+}: RuntimeInput): Pick<RuntimeScenario, 'runtime' | 'sustained' | 'curve'> => {
+  const condition: BatteryCondition = { stored: Math.min(stored, capacity), throughput: 0 };
+  const toPercentage = (kwh: number) => (capacity > 0 ? (kwh / capacity) * 100 : 0);
+  const curve: RuntimePoint[] = [{ elapsed: 0, percentage: toPercentage(condition.stored) }];
+
+  if (capacity <= 0 || condition.stored <= reserveFloor(spec, capacity)) {
+    return { runtime: 0, sustained: false, curve };
+  }
+
+  for (let elapsed = 0; elapsed < horizon; elapsed++) {
+    const hour = (startHour + elapsed) % HOURS_PER_DAY;
+    const net = (generation?.[hour] ?? 0) - load[hour];
+
+    if (net >= 0) {
+      chargeBattery(spec, capacity, condition, net);
+    } else {
+      const delivered = dischargeBattery(spec, capacity, condition, -net);
+      if (delivered < -net) {
+        curve.push({ elapsed: elapsed + 1, percentage: toPercentage(condition.stored) });
+        return { runtime: elapsed + delivered / -net, sustained: false, curve };
+      }
+    }
+    curve.push({ elapsed: elapsed + 1, percentage: toPercentage(condition.stored) });
+  }
+
+  return { runtime: horizon, sustained: true, curve };
+};
+
+export interface RuntimeScenarioInput {
+  spec: BatterySpec;
+  capacity: number;
+  stored: number;
+  load: number[]; // full daily load profile, kW
+  criticalLoad: number[]; // critical-tier load profile, kW
+  generation: number[]; // average daily generation profile, kWh
+  currentHour: number;
+}
+
+export const runtimeScenarios = (input: RuntimeScenarioInput): RuntimeScenario[] => {
+  const { spec, capacity, stored, load, criticalLoad, generation, currentHour } = input;
+  const base = { spec, capacity: Math.max(0, capacity), stored: Math.max(0, stored) };
+
+  return [
+    {
+      id: 'night',
+      label: 'Worst-case Night',
+      description: `Full load from ${NIGHT_START_HOUR}:00 with no solar or wind`,
+      ...estimateRuntime({ ...base, load, startHour: NIGHT_START_HOUR })
+    },
+    {
+      id: 'average-day',
+      label: 'Average Day',
+      description: `Full load from ${currentHour}:00 with average generation`,
+      ...estimateRuntime({ ...base, load, generation, startHour: currentHour })
+    },
+    {
+      id: 'critical',
+      label: 'Critical Loads Only',
+      description: `Critical appliances from ${NIGHT_START_HOUR}:00 with no solar or wind`,
+      ...estimateRuntime({ ...base, load: criticalLoad, startHour: NIGHT_START_HOUR })
+    }
+  ];
+};
+
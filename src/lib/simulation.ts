@@ -0,0 +1,350 @@
+import type { Appliance, BatteryState, DailyValue, LoadPriority, MeasuredLoad } from '@/types/energy';
+import { HOURS_PER_DAY, LOAD_PRIORITIES, buildTierProfiles, loadContext } from '@/lib/load-profile';
+import { DEFAULT_PV_ARRAY, pvHourlyOutput, solarPosition, type PVArrayConfig } from '@/lib/pv';
+import { DEFAULT_WIND_TURBINE, windHourlyOutput, type WindTurbineConfig } from '@/lib/wind';
+import {
+  DEFAULT_BATTERY_SPEC, applySelfDischarge, chargeBattery, dischargeBattery, effectiveCapacity, equivalentCycles,
+  reserveFloor, stateOfHealth, type BatteryCondition, type BatterySpec
+} from '@/lib/battery';
+
+export const HOURS_PER_YEAR = 8760;
+
+export const DEFAULT_LOAD_SHEDDING: LoadSheddingConfig = {
+  enabled: true,
+  deferrableBelow: 0.4,
+  essentialBelow: 0.2
+};
+
+export interface HourlyResource {
+  time: string; // YYYY-MM-DDTHH:00, site local time
+  solarHour?: number; // apparent solar time at the start of the hour; the clock hour when absent
+  irradiance: number; // kWh/m² during the hour
+  windSpeed: number; // m/s at 10m
+  temperature: number; // °C at 2m
+}
+
+export interface LoadSheddingConfig {
+  enabled: boolean;
+  deferrableBelow: number; // usable-charge fraction below which deferrable loads are shed
+  essentialBelow: number; // usable-charge fraction below which essential loads are shed too
+}
+
+export interface SystemConfig {
+  pv: PVArrayConfig;
+  wind: WindTurbineConfig;
+  battery: BatterySpec;
+  loadShedding: LoadSheddingConfig;
+  gridConnected: boolean;
+}
+
+export const DEFAULT_SYSTEM_CONFIG: SystemConfig = {
+  pv: DEFAULT_PV_ARRAY,
+  wind: DEFAULT_WIND_TURBINE,
+  battery: DEFAULT_BATTERY_SPEC,
+  loadShedding: DEFAULT_LOAD_SHEDDING,
+  gridConnected: true
+};
+
+export interface SimulationInput {
+  latitude: number;
+  resource: HourlyResource[];
+  appliances: Appliance[];
+  measuredLoad?: MeasuredLoad | null; // fits the appliance load to a meter log
+  battery: Pick<BatteryState, 'capacity' | 'currentCharge'>;
+  system: SystemConfig;
+  generation?: HourlyGeneration; // replaces the PV and wind models when given
+}
+
+// Output per resource hour, kWh, for callers that rescale one model run
+export interface HourlyGeneration {
+  solar: number[];
+  wind: number[];
+}
+
+export interface SimulationWindow {
+  start?: number; // first hour index into the resource series
+  hours?: number; // defaults to the length of the resource series
+}
+
+export interface DispatchStep {
+  time: string;
+  solar: number;
+  wind: number;
+  load: number; // demand after shedding
+  shedLoad: number;
+  shedTiers: LoadPriority[];
+  charge: number;
+  discharge: number;
+  curtailment: number;
+  unmetLoad: number;
+  gridImport: number;
+  batteryCharge: number; // kWh stored at the end of the hour
+}
+
+export interface TierSummary {
+  demand: number;
+  served: number;
+  shed: number;
+  unmet: number;
+}
+
+export interface DispatchSummary {
+  hours: number;
+  solar: number;
+  wind: number;
+  load: number;
+  charge: number;
+  discharge: number;
+  curtailment: number;
+  unmetLoad: number;
+  gridImport: number;
+  shedLoad: number;
+  tiers: Record<LoadPriority, TierSummary>;
+  batteryLosses: number; // conversion and self-discharge losses, kWh
+  equivalentCycles: number;
+  stateOfHealth: number; // remaining capacity fraction at the end of the window
+  renewableFraction: number; // share of demand met without grid, shedding or unmet load
+}
+
+export interface DispatchResult {
+  steps: DispatchStep[];
+  summary: DispatchSummary;
+}
+
+export const dayOfYear = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  const start = Date.UTC(d.getUTCFullYear(), 0, 1);
+  return Math.floor((d.getTime() - start) / 86400000) + 1;
+};
+
+// Share of the day's irradiation falling in each hour, from the cosine of the
+// solar zenith angle at the middle of the hour.
+export const solarDayShape = (latitude: number, day: number): number[] => {
+  const weights = Array.from({ length: HOURS_PER_DAY }, (_, hour) =>
+    Math.max(0, solarPosition(latitude, day, hour).cosZenith)
+  );
+
+  const total = weights.reduce((a, b) => a + b, 0);
+  return total > 0 ? weights.map(w => w / total) : weights;
+};
+
+const mean = (values: DailyValue[], fallback: number) =>
+  values.length ? values.reduce((sum, d) => sum + d.value, 0) / values.length : fallback;
+
+// Expands daily NASA POWER values into an hourly series. Days missing from the
+// wind or temperature series fall back to the mean of that series.
+export const buildHourlyResource = (
+  solarDaily: DailyValue[],
+  windDaily: DailyValue[],
+  temperatureDaily: DailyValue[],
+  latitude: number
+): HourlyResource[] => {
+  const windByDate = new Map(windDaily.map(d => [d.date, d.value]));
+  const temperatureByDate = new Map(temperatureDaily.map(d => [d.date, d.value]));
+  const meanWind = mean(windDaily, 0);
+  const meanTemperature = mean(temperatureDaily, 25);
+
+  return solarDaily.flatMap(({ date, value }) => {
+    const shape = solarDayShape(latitude, dayOfYear(date));
+    const windSpeed = windByDate.get(date) ?? meanWind;
+    const temperature = temperatureByDate.get(date) ?? meanTemperature;
+    return shape.map((share, hour) => ({
+      time: `${date}T${String(hour).padStart(2, '0')}:00`,
+      irradiance: value * share,
+      windSpeed,
+      temperature
+    }));
+  });
+};
+
+const hourOf = (time: string) => Number(time.slice(11, 13)) || 0;
+
+const tiersToShed = (config: LoadSheddingConfig, charge: number): LoadPriority[] => {
+  if (!config.enabled) return [];
+  const shed: LoadPriority[] = [];
+  if (charge < config.deferrableBelow) shed.push('deferrable');
+  if (charge < config.essentialBelow) shed.push('essential');
+  return shed;
+};
+
+// Fraction of the energy between the reserve floor and full charge that remains.
+const usableCharge = (spec: BatterySpec, capacity: number, condition: BatteryCondition) => {
+  const floor = reserveFloor(spec, capacity, condition.throughput);
+  const band = effectiveCapacity(spec, capacity, condition.throughput) - floor;
+  return band > 0 ? Math.max(0, condition.stored - floor) / band : 0;
+};
+
+const emptyTier = (): TierSummary => ({ demand: 0, served: 0, shed: 0, unmet: 0 });
+
+// Average value of a step field for each hour of the day across the window.
+export const averageDailyProfile = (steps: DispatchStep[], select: (step: DispatchStep) => number) => {
+  const totals = new Array(HOURS_PER_DAY).fill(0);
+  const counts = new Array(HOURS_PER_DAY).fill(0);
+  steps.forEach(step => {
+    const hour = hourOf(step.time);
+    totals[hour] += select(step);
+    counts[hour] += 1;
+  });
+  return totals.map((total, hour) => (counts[hour] ? total / counts[hour] : 0));
+};
+
+// Converts a window total into a daily average.
+export const perDay = (total: number, hours: number) =>
+  hours > 0 ? (total * HOURS_PER_DAY) / hours : 0;
+
+// Steps through the chosen window one hour at a time. Renewable surplus charges
+// the battery and anything left is curtailed; deficits are covered by the
+// battery, then the grid when connected, and otherwise recorded as unmet load.
+// When generation falls short and the usable charge is below the shedding
+// thresholds, deferrable and then essential loads are dropped for that hour.
+// Windows longer than the resource series wrap around to its start.
+export const simulateDispatch = (
+  input: SimulationInput,
+  window: SimulationWindow = {}
+): DispatchResult => {
+  const { latitude, resource, appliances, measuredLoad = null, battery, system, generation } = input;
+  const start = window.start ?? 0;
+  const hours = window.hours ?? resource.length;
+  // Tier profiles depend only on day type and season, so build each once
+  const profileCache = new Map<string, Record<LoadPriority, number[]>>();
+  const days = new Map<string, { day: number; tierProfiles: Record<LoadPriority, number[]> }>();
+  const dayFor = (date: string) => {
+    if (!days.has(date)) {
+      const context = loadContext(date);
+      const key = `${context.season}-${context.dayType}`;
+      if (!profileCache.has(key)) profileCache.set(key, buildTierProfiles(appliances, context, measuredLoad));
+      days.set(date, { day: dayOfYear(date), tierProfiles: profileCache.get(key) });
+    }
+    return days.get(date);
+  };
+  // Typical-year resources repeat the same speeds, and the power curve is costly to integrate
+  const windOutput = new Map<number, number>();
+  const windFor = (speed: number) => {
+    if (!windOutput.has(speed)) windOutput.set(speed, windHourlyOutput(system.wind, speed));
+    return windOutput.get(speed);
+  };
+
+  const summary: DispatchSummary = {
+    hours: 0,
+    solar: 0,
+    wind: 0,
+    load: 0,
+    charge: 0,
+    discharge: 0,
+    curtailment: 0,
+    unmetLoad: 0,
+    gridImport: 0,
+    shedLoad: 0,
+    tiers: { critical: emptyTier(), essential: emptyTier(), deferrable: emptyTier() },
+    batteryLosses: 0,
+    equivalentCycles: 0,
+    stateOfHealth: 1,
+    renewableFraction: 0
+  };
+
+  if (resource.length === 0 || hours <= 0) {
+    return { steps: [], summary };
+  }
+
+  const spec = system.battery;
+  const capacity = Math.max(0, battery.capacity);
+  const condition: BatteryCondition = {
+    stored: Math.min(capacity, Math.max(0, battery.currentCharge)),
+    throughput: 0
+  };
+  const initialStored = condition.stored;
+  const steps: DispatchStep[] = [];
+
+  for (let i = 0; i < hours; i++) {
+    const index = (start + i) % resource.length;
+    const { time, solarHour, irradiance, windSpeed, temperature } = resource[index];
+    const hour = hourOf(time);
+    const { day, tierProfiles } = dayFor(time.slice(0, 10));
+    const solar = generation ? generation.solar[index] ?? 0 : pvHourlyOutput(system.pv, latitude, {
+      day,
+      hour: solarHour ?? hour,
+      irradiance,
+      temperature
+    });
+    const wind = generation ? generation.wind[index] ?? 0 : windFor(windSpeed);
+    const demand = LOAD_PRIORITIES.reduce((sum, tier) => sum + tierProfiles[tier][hour], 0);
+    const shedTiers = solar + wind < demand
+      ? tiersToShed(system.loadShedding, usableCharge(spec, capacity, condition))
+      : [];
+    const shedLoad = shedTiers.reduce((sum, tier) => sum + tierProfiles[tier][hour], 0);
+    const load = demand - shedLoad;
+    const net = solar + wind - load;
+
+    let charge = 0;
+    let discharge = 0;
+    let curtailment = 0;
+    let unmetLoad = 0;
+    let gridImport = 0;
+
+    if (net >= 0) {
+      charge = chargeBattery(spec, capacity, condition, net);
+      curtailment = net - charge;
+    } else {
+      discharge = dischargeBattery(spec, capacity, condition, -net);
+      const shortfall = -net - discharge;
+      if (system.gridConnected) {
+        gridImport = shortfall;
+      } else {
+        unmetLoad = shortfall;
+      }
+    }
+    applySelfDischarge(spec, condition);
+
+    // Unmet load falls on the lowest-priority tiers still connected
+    let unallocated = unmetLoad;
+    [...LOAD_PRIORITIES].reverse().forEach(tier => {
+      const tierDemand = tierProfiles[tier][hour];
+      const tierSummary = summary.tiers[tier];
+      tierSummary.demand += tierDemand;
+      if (shedTiers.includes(tier)) {
+        tierSummary.shed += tierDemand;
+        return;
+      }
+      const unmet = Math.min(unallocated, tierDemand);
+      unallocated -= unmet;
+      tierSummary.unmet += unmet;
+      tierSummary.served += tierDemand - unmet;
+    });
+
+    steps.push({
+      time,
+      solar,
+      wind,
+      load,
+      shedLoad,
+      shedTiers,
+      charge,
+      discharge,
+      curtailment,
+      unmetLoad,
+      gridImport,
+      batteryCharge: condition.stored
+    });
+
+    summary.solar += solar;
+    summary.wind += wind;
+    summary.load += load;
+    summary.charge += charge;
+    summary.discharge += discharge;
+    summary.curtailment += curtailment;
+    summary.unmetLoad += unmetLoad;
+    summary.gridImport += gridImport;
+    summary.shedLoad += shedLoad;
+  }
+
+  summary.hours = steps.length;
+  summary.batteryLosses = initialStored + summary.charge - summary.discharge - condition.stored;
+  summary.equivalentCycles = equivalentCycles(spec, capacity, condition.throughput);
+  summary.stateOfHealth = stateOfHealth(spec, capacity, condition.throughput);
+  const totalDemand = summary.load + summary.shedLoad;
+  summary.renewableFraction = totalDemand > 0
+    ? 1 - (summary.gridImport + summary.unmetLoad + summary.shedLoad) / totalDemand
+    : 0;
+
+  return { steps, summary };
+};
@@ -0,0 +1,84 @@
+import type { BatteryState, EnergyConsumption, EnergyData, LocationData, TariffSettings } from '@/types/energy';
+import type { SystemConfig } from '@/lib/simulation';
+import type { SizingCandidate } from '@/lib/sizing';
+import type { FinanceSettings } from '@/lib/finance';
+import type { IncentiveSettings } from '@/lib/incentives';
+import { createLocalStore } from '@/lib/local-store';
+import type { AnalysisMode, MonthlyClimatology } from '@/lib/climatology';
+import type { HourlySeries } from '@/lib/hourly-series';
+import type { ProviderId, Provenance } from '@/lib/resource-provider';
+import type { UploadedWeather } from '@/lib/weather-file';
+
+export interface Site {
+  id: string;
+  name: string;
+  location: LocationData | null;
+  battery: BatteryState;
+  energyConsumption: EnergyConsumption;
+  tariff: TariffSettings;
+  finance?: FinanceSettings; // lifecycle cost assumptions
+  incentives?: IncentiveSettings; // subsidies, depreciation and GBI
+  system: SystemConfig;
+  sizing?: SizingCandidate | null; // least-cost system from the last sizing search
+  energyData: EnergyData | null; // last provider result, as processed
+  energyDataFetchedAt?: string; // ISO timestamp, from saves that predate provenance
+  provider?: ProviderId;
+  provenance?: Provenance | null;
+  upload?: UploadedWeather | null; // weather file for the upload provider
+  climatology?: MonthlyClimatology | null; // long-term monthly means
+  hourly?: HourlySeries | null; // measured hours over the same window as energyData
+  analysisMode?: AnalysisMode;
+  interpolateGaps?: boolean; // fill missing days between valid observations
+  updatedAt: string; // ISO timestamp
+}
+
+const ACTIVE_SITE_KEY = 'enershift:active-site';
+
+const store = createLocalStore<Site>('sites');
+
+export const DEFAULT_TARIFF: TariffSettings = {
+  gridCost: 8.5
+};
+
+export const createSiteId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const loadSites = async () => {
+  const sites = await store.all();
+  return sites.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveSite = (site: Site) => store.put(site);
+
+export const deleteSite = (id: string) => store.remove(id);
+
+export const getActiveSiteId = () => {
+  try {
+    return localStorage.getItem(ACTIVE_SITE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setActiveSiteId = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(ACTIVE_SITE_KEY, id);
+    else localStorage.removeItem(ACTIVE_SITE_KEY);
+  } catch {
+    // Storage is unavailable; the active site just won't survive a reload
+  }
+};
+
+// Saves from before provenance was recorded all hold NASA POWER daily data
+export const siteProvenance = (site: Site): Provenance | null => {
+  if (site.provenance !== undefined) return site.provenance;
+  const daily = site.energyData?.solar.daily ?? [];
+  if (!site.energyDataFetchedAt || daily.length === 0) return null;
+  return {
+    provider: 'nasa-power',
+    source: 'NASA POWER (community RE)',
+    resolution: 'daily',
+    start: daily[0].date,
+    end: daily[daily.length - 1].date,
+    fetchedAt: site.energyDataFetchedAt
+  };
+};
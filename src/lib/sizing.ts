@@ -0,0 +1,141 @@
+import type { Appliance, MeasuredLoad } from '@/types/energy';
+import { perDay, simulateDispatch, type HourlyGeneration, type HourlyResource, type SystemConfig } from '@/lib/simulation';
+import { arrayCapacity } from '@/lib/pv';
+import { windFarmCapacity } from '@/lib/wind';
+import { DEFAULT_CAPITAL_COSTS, capex, totalCapex, type CapitalCosts } from '@/lib/capital-costs';
+
+// Share of hours with some load shed or unmet
+export const DEFAULT_TARGET_LOLP = 0.05;
+
+export interface SizingInput {
+  latitude: number;
+  resource: HourlyResource[];
+  appliances: Appliance[];
+  measuredLoad?: MeasuredLoad | null;
+  system: SystemConfig;
+  costs?: CapitalCosts;
+  targetLolp?: number; // fraction of hours, 0-1
+}
+
+export interface SizingCandidate {
+  panelCount: number;
+  pvCapacity: number; // kWp
+  turbines: number;
+  windCapacity: number; // kW rated
+  battery: number; // kWh nominal
+  cost: number; // ₹ capital
+  lolp: number; // loss-of-load probability, fraction of hours
+  unserved: number; // shed and unmet load, kWh/day
+  meetsTarget: boolean;
+}
+
+export interface SizingResult {
+  candidates: SizingCandidate[]; // every system simulated
+  frontier: SizingCandidate[]; // cheapest system for each reliability level, by cost
+  recommended: SizingCandidate | null; // least cost meeting the target, null when none does
+  targetLolp: number;
+  dailyLoad: number; // kWh/day
+}
+
+// PV and battery sizes tried, as multiples of what covers the daily load on its own
+const PV_MULTIPLES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 2.5, 3];
+const BATTERY_MULTIPLES = [0, 0.25, 0.5, 0.75, 1, 1.5, 2, 3];
+const MAX_TURBINES = 3;
+const BATTERY_STEP = 0.5; // kWh
+const LOSS_EPSILON = 1e-6; // kWh
+
+const unique = (values: number[]) => [...new Set(values)].sort((a, b) => a - b);
+
+// Searches PV panel count × turbine count × battery capacity against the hourly
+// dispatch model with the site islanded. PV and wind output scale linearly with
+// the number of panels and turbines, so each is modelled once per unit and
+// rescaled. For every PV and turbine combination the battery is bisected to the
+// smallest size meeting the target, since more storage never loses more load.
+export const optimiseSizing = ({
+  latitude, resource, appliances, measuredLoad = null, system, costs = DEFAULT_CAPITAL_COSTS,
+  targetLolp = DEFAULT_TARGET_LOLP
+}: SizingInput): SizingResult => {
+  const islanded: SystemConfig = { ...system, gridConnected: false };
+  const unit = simulateDispatch({
+    latitude,
+    resource,
+    appliances,
+    measuredLoad,
+    battery: { capacity: 0, currentCharge: 0 },
+    system: { ...islanded, pv: { ...system.pv, panelCount: 1 }, wind: { ...system.wind, count: 1 } }
+  });
+  const unitSolar = unit.steps.map(step => step.solar);
+  const unitWind = unit.steps.map(step => step.wind);
+  const { hours } = unit.summary;
+  const dailyLoad = perDay(unit.summary.load + unit.summary.shedLoad, hours);
+  const panelYield = perDay(unit.summary.solar, hours);
+
+  const panelOptions = panelYield > 0
+    ? unique([0, ...PV_MULTIPLES.map(multiple => Math.max(1, Math.round((dailyLoad * multiple) / panelYield)))])
+    : [0];
+  const turbineOptions = unit.summary.wind > 0 ? Array.from({ length: MAX_TURBINES + 1 }, (_, count) => count) : [0];
+  const batteryOptions = unique(BATTERY_MULTIPLES.map(multiple => Math.round((dailyLoad * multiple) / BATTERY_STEP) * BATTERY_STEP));
+
+  const candidates: SizingCandidate[] = [];
+  const evaluate = (panelCount: number, turbines: number, battery: number): SizingCandidate => {
+    const generation: HourlyGeneration = {
+      solar: unitSolar.map(kwh => kwh * panelCount),
+      wind: unitWind.map(kwh => kwh * turbines)
+    };
+    const { steps, summary } = simulateDispatch({
+      latitude,
+      resource,
+      appliances,
+      measuredLoad,
+      battery: { capacity: battery, currentCharge: battery },
+      system: islanded,
+      generation
+    });
+    const lossHours = steps.filter(step => step.shedLoad + step.unmetLoad > LOSS_EPSILON).length;
+    const pvCapacity = arrayCapacity({ ...system.pv, panelCount });
+    const windCapacity = windFarmCapacity({ ...system.wind, count: turbines });
+    const lolp = steps.length > 0 ? lossHours / steps.length : 1;
+    const candidate: SizingCandidate = {
+      panelCount,
+      pvCapacity,
+      turbines,
+      windCapacity,
+      battery,
+      cost: totalCapex(capex(costs, { pvCapacity, windCapacity, batteryCapacity: battery })),
+      lolp,
+      unserved: perDay(summary.shedLoad + summary.unmetLoad, summary.hours),
+      meetsTarget: lolp <= targetLolp
+    };
+    candidates.push(candidate);
+    return candidate;
+  };
+
+  if (hours > 0) {
+    panelOptions.forEach(panelCount => turbineOptions.forEach(turbines => {
+      if (panelCount === 0 && turbines === 0) return;
+      let low = 0;
+      let high = batteryOptions.length - 1;
+      if (!evaluate(panelCount, turbines, batteryOptions[high]).meetsTarget) return;
+      while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        if (evaluate(panelCount, turbines, batteryOptions[middle]).meetsTarget) high = middle;
+        else low = middle + 1;
+      }
+    }));
+  }
+
+  const byCost = [...candidates].sort((a, b) => a.cost - b.cost || a.lolp - b.lolp);
+  const frontier: SizingCandidate[] = [];
+  byCost.forEach(candidate => {
+    const last = frontier[frontier.length - 1];
+    if (!last || candidate.lolp < last.lolp - LOSS_EPSILON) frontier.push(candidate);
+  });
+
+  return {
+    candidates,
+    frontier,
+    recommended: byCost.find(candidate => candidate.meetsTarget) ?? null,
+    targetLolp,
+    dailyLoad
+  };
+};
@@ -0,0 +1,69 @@
+import { dayOfYear } from '@/lib/simulation';
+import { solarHourAt, solarPosition } from '@/lib/pv';
+import type { HourlyPoint, HourlySeries } from '@/lib/hourly-series';
+
+const HOUR = 60 * 60 * 1000; // ms
+const CLEAR_SKY_PEAK = 1.0; // kWh/m² in an hour with the sun overhead
+
+export interface SyntheticRequest {
+  latitude: number;
+  longitude: number;
+  timeZone: string;
+  start: string; // YYYY-MM-DD, UTC
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+// Cloudless global horizontal irradiance in the hour starting at the
+// timestamp, kWh/m², centred on the hour as in solarPosition.
+export const clearSkyIrradiance = (latitude: number, longitude: number, timestamp: number) => {
+  const date = new Date(timestamp).toISOString().slice(0, 10);
+  const { cosZenith } = solarPosition(latitude, dayOfYear(date), solarHourAt(timestamp, longitude));
+  return CLEAR_SKY_PEAK * Math.max(0, cosZenith) ** 1.15;
+};
+
+// Small seeded PRNG (mulberry32), so the same site and dates always give the same series
+const random = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const hash = (text: string) =>
+  [...text].reduce((h, char) => Math.imul(h ^ char.charCodeAt(0), 16777619), 2166136261);
+
+// Plausible hourly weather for a site: clear-sky irradiance scaled by a daily
+// cloudiness draw, a diurnal temperature swing and afternoon-peaking wind.
+// Meant for demos and tests, not for assessing a real site.
+export const generateSyntheticSeries = ({ latitude, longitude, timeZone, start, end }: SyntheticRequest): HourlySeries => {
+  const points: HourlyPoint[] = [];
+  const meanTemperature = 28 - 0.4 * Math.max(0, Math.abs(latitude) - 12);
+  const first = new Date(`${start}T00:00:00Z`).getTime();
+  const last = new Date(`${end}T23:00:00Z`).getTime();
+
+  let date = '';
+  let clearness = 0;
+  let windMean = 0;
+  let next = random(0);
+  for (let timestamp = first; timestamp <= last; timestamp += HOUR) {
+    const utc = new Date(timestamp).toISOString();
+    if (utc.slice(0, 10) !== date) {
+      date = utc.slice(0, 10);
+      next = random(hash(`${latitude.toFixed(2)},${longitude.toFixed(2)},${date}`));
+      clearness = 0.45 + 0.4 * next();
+      windMean = 2 + 3 * next();
+    }
+
+    const solarHour = solarHourAt(timestamp, longitude);
+    const swing = Math.cos(((solarHour + 0.5 - 15) / 24) * 2 * Math.PI); // warmest mid-afternoon
+
+    points.push({
+      timestamp,
+      irradiance: clearSkyIrradiance(latitude, longitude, timestamp) * clearness * (0.9 + 0.2 * next()),
+      temperature: meanTemperature + 6 * swing,
+      windSpeed: Math.max(0, windMean * (1 + 0.35 * swing) + (next() - 0.5))
+    });
+  }
+
+  return { timeZone, points };
+};
@@ -0,0 +1,246 @@
+import type { ExportMode, TariffSettings, TariffSlab, TimeOfDayBand } from '@/types/energy';
+import { HOURS_PER_DAY } from '@/lib/load-profile';
+import type { DispatchStep } from '@/lib/simulation';
+
+export type TariffPresetId = 'flat' | 'maharashtra' | 'delhi' | 'karnataka' | 'tamil-nadu' | 'gujarat-commercial';
+
+export const EXPORT_MODE_LABELS: Record<ExportMode, string> = {
+  none: 'No export credit',
+  'net-metering': 'Net metering',
+  'gross-metering': 'Gross metering'
+};
+
+// Indicative residential rates from recent state tariff orders, rounded;
+// check the current order before relying on a bill
+export const TARIFF_PRESETS: Record<TariffPresetId, { label: string; tariff: TariffSettings }> = {
+  flat: {
+    label: 'Flat rate',
+    tariff: { gridCost: 8.5, preset: 'flat', fixedCharge: 0, demandCharge: 0, exportMode: 'none', exportRate: 0 }
+  },
+  maharashtra: {
+    label: 'Maharashtra (MSEDCL residential)',
+    tariff: {
+      gridCost: 10.3,
+      preset: 'maharashtra',
+      slabs: [{ upTo: 100, rate: 5.6 }, { upTo: 300, rate: 10.3 }, { upTo: 500, rate: 14.6 }, { upTo: null, rate: 16.7 }],
+      fixedCharge: 130,
+      demandCharge: 0,
+      exportMode: 'net-metering',
+      exportRate: 2.9
+    }
+  },
+  delhi: {
+    label: 'Delhi (residential, ToD)',
+    tariff: {
+      gridCost: 6.5,
+      preset: 'delhi',
+      slabs: [
+        { upTo: 200, rate: 3 }, { upTo: 400, rate: 4.5 }, { upTo: 800, rate: 6.5 }, { upTo: 1200, rate: 7 },
+        { upTo: null, rate: 8 }
+      ],
+      timeOfDay: [
+        { start: 14, end: 17, multiplier: 1.2 }, { start: 22, end: 24, multiplier: 1.2 }, { start: 4, end: 10, multiplier: 0.8 }
+      ],
+      fixedCharge: 100,
+      demandCharge: 0,
+      exportMode: 'net-metering',
+      exportRate: 3.5
+    }
+  },
+  karnataka: {
+    label: 'Karnataka (BESCOM residential)',
+    tariff: {
+      gridCost: 5.9,
+      preset: 'karnataka',
+      slabs: [{ upTo: null, rate: 5.9 }],
+      fixedCharge: 220,
+      demandCharge: 0,
+      exportMode: 'net-metering',
+      exportRate: 3.9
+    }
+  },
+  'tamil-nadu': {
+    label: 'Tamil Nadu (TANGEDCO residential)',
+    tariff: {
+      gridCost: 6.3,
+      preset: 'tamil-nadu',
+      slabs: [
+        { upTo: 100, rate: 0 }, { upTo: 200, rate: 2.35 }, { upTo: 400, rate: 4.7 }, { upTo: 500, rate: 6.3 },
+        { upTo: 600, rate: 8.4 }, { upTo: 800, rate: 9.45 }, { upTo: 1000, rate: 10.5 }, { upTo: null, rate: 11.55 }
+      ],
+      fixedCharge: 0,
+      demandCharge: 0,
+      exportMode: 'gross-metering',
+      exportRate: 3.1
+    }
+  },
+  'gujarat-commercial': {
+    label: 'Gujarat (commercial, ToD)',
+    tariff: {
+      gridCost: 5.2,
+      preset: 'gujarat-commercial',
+      timeOfDay: [{ start: 7, end: 11, multiplier: 1.1 }, { start: 18, end: 22, multiplier: 1.1 }],
+      fixedCharge: 0,
+      demandCharge: 150,
+      exportMode: 'net-metering',
+      exportRate: 2.25
+    }
+  }
+};
+
+export interface TariffBill {
+  energy: number; // ₹, slab or flat energy charge
+  timeOfDay: number; // ₹, surcharges less rebates
+  demand: number; // ₹
+  fixed: number; // ₹
+  exportCredit: number; // ₹
+  total: number; // ₹
+  imported: number; // kWh
+  exported: number; // kWh
+  days: number; // days of data billed
+}
+
+export interface TariffComparison {
+  without: TariffBill; // the served load bought from the grid
+  withSystem: TariffBill;
+  annualSavings: number; // ₹/yr
+  unserved: number; // kWh shed or unmet in the simulated window, billed in neither case
+}
+
+interface BillingHour {
+  time: string; // YYYY-MM-DDTHH:00
+  imported: number; // kWh
+  exported: number; // kWh
+}
+
+const DAYS_PER_YEAR = 365;
+export const DAYS_PER_MONTH = DAYS_PER_YEAR / 12; // average
+
+const daysInMonth = (month: string) => {
+  const [year, index] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, index, 0)).getUTCDate();
+};
+
+const inBand = (hour: number, { start, end }: TimeOfDayBand) =>
+  start <= end ? hour >= start && hour < end : hour >= start || hour < end;
+
+// ToD multiplier for an hour of the day; the first matching band wins
+export const timeOfDayMultiplier = (tariff: TariffSettings, hour: number) =>
+  tariff.timeOfDay?.find(band => inBand(hour, band))?.multiplier ?? 1;
+
+// Energy charge for a month's consumption through the slabs, with the bounds
+// scaled to the share of the month being billed
+const slabCharge = (slabs: TariffSlab[], energy: number, scale: number) => {
+  let charge = 0;
+  let lower = 0;
+  for (const slab of slabs) {
+    const upper = slab.upTo === null ? Infinity : slab.upTo * scale;
+    charge += Math.max(0, Math.min(energy, upper) - lower) * slab.rate;
+    if (energy <= upper) break;
+    lower = upper;
+  }
+  return charge;
+};
+
+const hasSlabs = (tariff: TariffSettings) => (tariff.slabs?.length ?? 0) > 0;
+
+// ₹/kWh the next kWh costs in each hour of the day at a given monthly consumption
+export const hourlyPrices = (tariff: TariffSettings, monthlyEnergy = 0) => {
+  const slab = tariff.slabs?.find(item => item.upTo === null || monthlyEnergy < item.upTo);
+  const rate = hasSlabs(tariff) ? slab?.rate ?? tariff.gridCost : tariff.gridCost;
+  return Array.from({ length: HOURS_PER_DAY }, (_, hour) => rate * timeOfDayMultiplier(tariff, hour));
+};
+
+const emptyBill = (): TariffBill => ({
+  energy: 0, timeOfDay: 0, demand: 0, fixed: 0, exportCredit: 0, total: 0, imported: 0, exported: 0, days: 0
+});
+
+// Bills hourly import and export month by month. Slab bounds and fixed and
+// demand charges are pro-rated for months the data only partly covers. Net
+// metering sets export against import before the slabs and credits any
+// surplus at the export rate; gross metering credits every exported kWh.
+const billHours = (hours: BillingHour[], tariff: TariffSettings): TariffBill => {
+  const months = new Map<string, BillingHour[]>();
+  hours.forEach(hour => {
+    const month = hour.time.slice(0, 7);
+    if (!months.has(month)) months.set(month, []);
+    months.get(month).push(hour);
+  });
+
+  const mode = tariff.exportMode ?? 'none';
+  const exportRate = tariff.exportRate ?? 0;
+  const bill = emptyBill();
+  months.forEach((monthHours, month) => {
+    const days = new Set(monthHours.map(hour => hour.time.slice(0, 10))).size;
+    const scale = days / daysInMonth(month);
+    const imported = monthHours.reduce((sum, hour) => sum + hour.imported, 0);
+    const exported = monthHours.reduce((sum, hour) => sum + hour.exported, 0);
+    const billable = mode === 'net-metering' ? Math.max(0, imported - exported) : imported;
+    // ToD applies to the energy drawn in each hour, at the month's average rate
+    const energy = hasSlabs(tariff) ? slabCharge(tariff.slabs, billable, scale) : billable * tariff.gridCost;
+    const averageRate = billable > 0 ? energy / billable : 0;
+    const netShare = imported > 0 ? billable / imported : 0;
+    const timeOfDay = monthHours.reduce((sum, hour) => {
+      const multiplier = timeOfDayMultiplier(tariff, Number(hour.time.slice(11, 13)));
+      return sum + hour.imported * netShare * averageRate * (multiplier - 1);
+    }, 0);
+    const credited = mode === 'gross-metering' ? exported : mode === 'net-metering' ? Math.max(0, exported - imported) : 0;
+
+    bill.energy += energy;
+    bill.timeOfDay += timeOfDay;
+    bill.demand += Math.max(0, ...monthHours.map(hour => hour.imported)) * (tariff.demandCharge ?? 0) * scale;
+    bill.fixed += (tariff.fixedCharge ?? 0) * scale;
+    bill.exportCredit += credited * exportRate;
+    bill.imported += imported;
+    bill.exported += exported;
+    bill.days += days;
+  });
+  bill.total = bill.energy + bill.timeOfDay + bill.demand + bill.fixed - bill.exportCredit;
+  return bill;
+};
+
+// Grid bills for the simulated window with and without the system. Only the
+// load the system actually served is billed in either case, so shed or unmet
+// load never counts as a saving. Surplus the battery cannot take is exported;
+// under gross metering all generation is sold and the served load is bought.
+// An islanded site has no bill at all.
+export const compareBills = (steps: DispatchStep[], tariff: TariffSettings, gridConnected: boolean): TariffComparison => {
+  const without = billHours(
+    steps.map(step => ({ time: step.time, imported: step.load - step.unmetLoad, exported: 0 })),
+    tariff
+  );
+  const gross = tariff.exportMode === 'gross-metering';
+  const withSystem = gridConnected
+    ? billHours(
+      steps.map(step => ({
+        time: step.time,
+        imported: gross ? step.load - step.unmetLoad : step.gridImport,
+        exported: gross ? step.solar + step.wind : step.curtailment
+      })),
+      tariff
+    )
+    : emptyBill();
+  const days = without.days;
+  return {
+    without,
+    withSystem,
+    annualSavings: days > 0 ? ((without.total - withSystem.total) / days) * DAYS_PER_YEAR : 0,
+    unserved: steps.reduce((sum, step) => sum + step.shedLoad + step.unmetLoad, 0)
+  };
+};
+
+// Scales a bill to an average month for display
+export const monthlyBill = (bill: TariffBill): TariffBill => {
+  const factor = bill.days > 0 ? DAYS_PER_MONTH / bill.days : 0;
+  return {
+    energy: bill.energy * factor,
+    timeOfDay: bill.timeOfDay * factor,
+    demand: bill.demand * factor,
+    fixed: bill.fixed * factor,
+    exportCredit: bill.exportCredit * factor,
+    total: bill.total * factor,
+    imported: bill.imported * factor,
+    exported: bill.exported * factor,
+    days: DAYS_PER_MONTH
+  };
+};
@@ -0,0 +1,243 @@
+import type { ImportMode } from '@/types/energy';
+import type { HourlyPoint, HourlySeries } from '@/lib/hourly-series';
+import {
+  HOUR, columnValues, detectDateOrder, gapReport, guessColumn, parseTimestamp, readCsvTable, resampleHourly,
+  type CsvTable, type DateOrder, type GapReport
+} from '@/lib/csv-import';
+
+export type WeatherFileFormat = 'tmy3' | 'epw' | 'csv';
+
+export const WEATHER_FILE_FORMAT_LABELS: Record<WeatherFileFormat, string> = {
+  tmy3: 'TMY3',
+  epw: 'EPW',
+  csv: 'CSV'
+};
+
+export type WeatherField = 'time' | 'irradiance' | 'temperature' | 'windSpeed';
+
+export const WEATHER_FIELD_LABELS: Record<WeatherField, string> = {
+  time: 'Timestamp',
+  irradiance: 'Global horizontal irradiance',
+  temperature: 'Air temperature',
+  windSpeed: 'Wind speed'
+};
+
+export type IrradianceUnit = 'W/m²' | 'Wh/m²' | 'kWh/m²';
+export type TemperatureUnit = '°C' | '°F' | 'K';
+export type WindUnit = 'm/s' | 'km/h' | 'mph' | 'kn';
+
+export const IRRADIANCE_UNITS: IrradianceUnit[] = ['W/m²', 'Wh/m²', 'kWh/m²'];
+export const TEMPERATURE_UNITS: TemperatureUnit[] = ['°C', '°F', 'K'];
+export const WIND_UNITS: WindUnit[] = ['m/s', 'km/h', 'mph', 'kn'];
+
+export interface WeatherUnits {
+  irradiance: IrradianceUnit; // W/m² is a mean over the reading interval; the others are totals for it
+  temperature: TemperatureUnit;
+  windSpeed: WindUnit;
+}
+
+export interface WeatherImportSettings {
+  mapping: Record<WeatherField, number>; // column index, -1 when unmapped
+  units: WeatherUnits;
+  dateOrder: DateOrder;
+}
+
+// What the importer worked out about a file before the user confirms it
+export interface WeatherFileInspection extends WeatherImportSettings {
+  format: WeatherFileFormat;
+  headers: string[];
+  preview: string[][]; // first few data rows
+}
+
+export interface UploadedWeather {
+  fileName: string;
+  format: WeatherFileFormat;
+  mode: ImportMode;
+  uploadedAt: string; // ISO timestamp
+  series: HourlySeries;
+  gaps: GapReport | null;
+}
+
+const PREVIEW_ROWS = 5;
+const DETECTION_ROWS = 500;
+
+const TO_CELSIUS: Record<TemperatureUnit, (value: number) => number> = {
+  '°C': value => value,
+  '°F': value => ((value - 32) * 5) / 9,
+  K: value => value - 273.15
+};
+
+const TO_METRES_PER_SECOND: Record<WindUnit, number> = {
+  'm/s': 1,
+  'km/h': 1 / 3.6,
+  mph: 0.44704,
+  kn: 0.514444
+};
+
+// EPW data rows have no header; these name the columns up to wind speed
+const EPW_HEADERS = ['Year', 'Month', 'Day', 'Hour', 'Minute', 'Source', 'Dry-bulb (°C)', 'Dew point', 'RH', 'Pressure',
+  'ETR', 'ETRN', 'IR horizontal', 'GHI (Wh/m²)', 'DNI', 'DHI', 'GH illum', 'DN illum', 'DH illum', 'Zenith lum',
+  'Wind direction', 'Wind speed (m/s)'];
+const EPW_HEADER_LINES = 8;
+
+const TIME_PATTERNS = [/^(date ?time|timestamp)/i, /^time/i, /^date/i];
+const IRRADIANCE_PATTERNS = [/^ghi/i, /irradiance|radiation|insolation/i, /^solar/i, /pyrano/i];
+const TEMPERATURE_PATTERNS = [/dry.?bulb/i, /^(temp|t2m|air ?temp)/i, /temp/i];
+const WIND_PATTERNS = [/^(wind ?speed|wspd|ws10m|ws)/i, /wind/i, /anemo/i];
+
+export const detectWeatherFileFormat = (text: string): WeatherFileFormat => {
+  const [first = '', second = ''] = text.split(/\r?\n/, 2);
+  if (/^LOCATION,/i.test(first)) return 'epw';
+  if (/Date \(MM\/DD\/YYYY\)/i.test(second)) return 'tmy3';
+  return 'csv';
+};
+
+// Header hints first, then the size of the values.
+const detectIrradianceUnit = (header: string, values: number[]): IrradianceUnit => {
+  if (/kwh/i.test(header)) return 'kWh/m²';
+  if (/wh/i.test(header)) return 'Wh/m²';
+  if (/w\s*\/?\s*m/i.test(header)) return 'W/m²';
+  return Math.max(0, ...values) > 5 ? 'W/m²' : 'kWh/m²';
+};
+
+const detectTemperatureUnit = (header: string, values: number[]): TemperatureUnit => {
+  if (/°\s*f|\(f\)|degf|fahrenheit/i.test(header)) return '°F';
+  if (/kelvin|\(k\)/i.test(header)) return 'K';
+  if (/°\s*c|\(c\)|degc|celsius/i.test(header)) return '°C';
+  const mean = values.reduce((a, b) => a + b, 0) / (values.length || 1);
+  if (mean > 200) return 'K';
+  return Math.max(-Infinity, ...values) > 60 ? '°F' : '°C';
+};
+
+const detectWindUnit = (header: string): WindUnit => {
+  if (/km\s*\/?\s*h|kph/i.test(header)) return 'km/h';
+  if (/mph/i.test(header)) return 'mph';
+  if (/knot|\(kn\)|\(kt\)/i.test(header)) return 'kn';
+  return 'm/s';
+};
+
+const tableFor = (format: WeatherFileFormat, text: string): CsvTable => {
+  if (format === 'epw') {
+    const { headers, rows } = readCsvTable(text, EPW_HEADER_LINES);
+    return { headers: EPW_HEADERS, rows: [headers, ...rows] };
+  }
+  return readCsvTable(text, format === 'tmy3' ? 1 : 0);
+};
+
+// Guesses the column mapping, units and date order of a weather file.
+export const inspectWeatherFile = (text: string): WeatherFileInspection => {
+  const format = detectWeatherFileFormat(text);
+  const { headers, rows } = tableFor(format, text);
+  const preview = rows.slice(0, PREVIEW_ROWS);
+
+  if (format === 'epw') {
+    return {
+      format,
+      headers,
+      preview,
+      mapping: { time: 0, irradiance: 13, temperature: 6, windSpeed: 21 },
+      units: { irradiance: 'Wh/m²', temperature: '°C', windSpeed: 'm/s' },
+      dateOrder: 'ymd'
+    };
+  }
+
+  const mapping = {
+    time: guessColumn(headers, TIME_PATTERNS),
+    irradiance: guessColumn(headers, IRRADIANCE_PATTERNS),
+    temperature: guessColumn(headers, TEMPERATURE_PATTERNS),
+    windSpeed: guessColumn(headers, WIND_PATTERNS)
+  };
+  const sample = rows.slice(0, DETECTION_ROWS);
+  return {
+    format,
+    headers,
+    preview,
+    mapping,
+    units: {
+      irradiance: detectIrradianceUnit(headers[mapping.irradiance] ?? '', columnValues(sample, mapping.irradiance)),
+      temperature: detectTemperatureUnit(headers[mapping.temperature] ?? '', columnValues(sample, mapping.temperature)),
+      windSpeed: detectWindUnit(headers[mapping.windSpeed] ?? '')
+    },
+    dateOrder: format === 'tmy3' ? 'mdy' : detectDateOrder(sample.map(row => row[mapping.time] ?? ''))
+  };
+};
+
+// TMY3 and EPW stamp each row with the hour it ends, 1–24, in the station's
+// standard time; the first line carries that offset in hours.
+const stationOffset = (format: WeatherFileFormat, text: string) => {
+  const station = text.split(/\r?\n/, 1)[0].split(',');
+  const offset = Number(format === 'epw' ? station[8] : station[3]);
+  return Number.isFinite(offset) ? offset : 0;
+};
+
+const hourEnding = (year: number, month: number, day: number, hour: number, offset: number) =>
+  Date.UTC(year, month - 1, day, hour - 1) - offset * HOUR;
+
+const rowTimestamp = (
+  format: WeatherFileFormat,
+  row: string[],
+  settings: WeatherImportSettings,
+  timeZone: string,
+  offset: number
+) => {
+  if (format === 'epw') {
+    const [year, month, day, hour] = row.map(Number);
+    return hourEnding(year, month, day, hour, offset);
+  }
+  if (format === 'tmy3') {
+    // The Time column follows the Date column
+    const [month, day, year] = (row[settings.mapping.time] ?? '').split('/').map(Number);
+    return hourEnding(year, month, day, Number(row[settings.mapping.time + 1]?.split(':')[0]), offset);
+  }
+  return parseTimestamp(row[settings.mapping.time] ?? '', settings.dateOrder, timeZone);
+};
+
+const cell = (row: string[], column: number) => (row[column] ? Number(row[column]) : NaN);
+
+// Reads a weather file with the confirmed settings into an hourly series on the
+// site's clock, with a report of the hours missing from it. Throws with a
+// message fit for the user when nothing usable is found.
+export const importWeatherFile = (
+  fileName: string,
+  text: string,
+  settings: WeatherImportSettings,
+  timeZone: string,
+  mode: ImportMode
+): UploadedWeather => {
+  const format = detectWeatherFileFormat(text);
+  const unmapped = (Object.keys(settings.mapping) as WeatherField[]).filter(field => settings.mapping[field] < 0);
+  if (unmapped.length > 0) {
+    throw new Error(`Choose a column for ${unmapped.map(field => WEATHER_FIELD_LABELS[field].toLowerCase()).join(', ')}`);
+  }
+
+  const offset = stationOffset(format, text);
+  const { mapping, units } = settings;
+  const readings = tableFor(format, text).rows
+    .map(row => ({
+      timestamp: rowTimestamp(format, row, settings, timeZone, offset),
+      irradiance: cell(row, mapping.irradiance),
+      temperature: TO_CELSIUS[units.temperature](cell(row, mapping.temperature)),
+      windSpeed: cell(row, mapping.windSpeed) * TO_METRES_PER_SECOND[units.windSpeed]
+    }))
+    .filter(reading => Object.values(reading).every(Number.isFinite))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (readings.length === 0) throw new Error(`No usable rows found in ${fileName}`);
+
+  const points: HourlyPoint[] = resampleHourly(readings, {
+    irradiance: units.irradiance === 'W/m²' ? 'mean' : 'sum',
+    temperature: 'mean',
+    windSpeed: 'mean'
+  }).map(point => ({
+    ...point,
+    irradiance: units.irradiance === 'kWh/m²' ? point.irradiance : point.irradiance / 1000 // → kWh/m²
+  }));
+
+  return {
+    fileName,
+    format,
+    mode,
+    uploadedAt: new Date().toISOString(),
+    series: { timeZone, points },
+    gaps: gapReport(points.map(point => point.timestamp))
+  };
+};
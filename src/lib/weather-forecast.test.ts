@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_WEATHER_SETTINGS, fetchForecast, forecastResource, loadWeatherSettings, upcomingHours
+} from '@/lib/weather-forecast';
+import { mockOpenMeteoForecast } from '@/lib/mock-weather';
+
+const HOUR = 60 * 60 * 1000;
+
+const storage = (value: string | null) => ({ getItem: () => value, setItem: () => undefined });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fetchForecast', () => {
+  it('parses the mock payload without the network', async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+    const payload = mockOpenMeteoForecast(77.6);
+    const forecast = await fetchForecast({ provider: 'mock', apiKey: '' }, 12.97, 77.6);
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(forecast.provider).toBe('mock');
+    expect(forecast.hours).toHaveLength(payload.hourly.time.length);
+    // Open-Meteo stamps the end of the hour; forecast hours start it
+    expect(forecast.hours[0]).toEqual({
+      timestamp: payload.hourly.time[0] * 1000 - HOUR,
+      cloudCover: payload.hourly.cloud_cover[0],
+      temperature: payload.hourly.temperature_2m[0],
+      windSpeed: payload.hourly.wind_speed_10m[0]
+    });
+    expect(forecast.hours.every(hour => hour.cloudCover >= 0 && hour.cloudCover <= 100)).toBe(true);
+  });
+
+  it('covers the hours ahead and runs through to a dispatch resource', async () => {
+    const now = Date.now();
+    const forecast = await fetchForecast({ provider: 'mock', apiKey: '' }, 12.97, 77.6);
+    const hours = upcomingHours(forecast, now);
+    expect(hours.length).toBeGreaterThan(0);
+
+    const resource = forecastResource(hours, 12.97, 77.6, 'Asia/Kolkata');
+    expect(resource).toHaveLength(hours.length);
+    expect(resource.every(hour => hour.irradiance >= 0)).toBe(true);
+    expect(resource.some(hour => hour.irradiance > 0)).toBe(true);
+  });
+
+  it('asks for a key before calling a provider that needs one', async () => {
+    await expect(fetchForecast({ provider: 'openweathermap', apiKey: ' ' }, 0, 0)).rejects.toMatchObject({
+      category: 'input'
+    });
+  });
+});
+
+describe('loadWeatherSettings', () => {
+  it('keeps a valid saved provider and key', () => {
+    vi.stubGlobal('localStorage', storage(JSON.stringify({ provider: 'mock', apiKey: 'abc' })));
+    expect(loadWeatherSettings()).toEqual({ provider: 'mock', apiKey: 'abc' });
+  });
+
+  it('falls back to the defaults for an unknown provider', () => {
+    vi.stubGlobal('localStorage', storage(JSON.stringify({ provider: 'retired', apiKey: 'abc' })));
+    expect(loadWeatherSettings()).toEqual(DEFAULT_WEATHER_SETTINGS);
+  });
+
+  it('falls back to the defaults for unreadable storage', () => {
+    vi.stubGlobal('localStorage', storage('{not json'));
+    expect(loadWeatherSettings()).toEqual(DEFAULT_WEATHER_SETTINGS);
+  });
+});
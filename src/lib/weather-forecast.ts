@@ -0,0 +1,184 @@
+import { z } from 'zod';
+import { apiError, fetchJson } from '@/lib/api-client';
+import { mockOpenMeteoForecast } from '@/lib/mock-weather';
+import { clearSkyIrradiance } from '@/lib/synthetic-resource';
+import { toHourlyResource, type HourlyPoint } from '@/lib/hourly-series';
+import type { HourlyResource } from '@/lib/simulation';
+
+const HOUR = 60 * 60 * 1000; // ms
+
+export type ForecastProviderId = 'open-meteo' | 'openweathermap' | 'mock';
+
+export const FORECAST_PROVIDERS: Record<ForecastProviderId, { label: string; needsKey: boolean }> = {
+  'open-meteo': { label: 'Open-Meteo', needsKey: false },
+  openweathermap: { label: 'OpenWeatherMap One Call', needsKey: true },
+  mock: { label: 'Built-in mock forecast', needsKey: false }
+};
+
+export interface WeatherSettings {
+  provider: ForecastProviderId;
+  apiKey: string; // only sent to providers that need one
+}
+
+export const DEFAULT_WEATHER_SETTINGS: WeatherSettings = {
+  provider: 'open-meteo',
+  apiKey: ''
+};
+
+// Hours ahead the generation prediction covers
+export const FORECAST_HOURS = 48;
+
+export interface ForecastHour {
+  timestamp: number; // start of the hour, UTC epoch ms
+  cloudCover: number; // %
+  temperature: number; // °C at 2m
+  windSpeed: number; // m/s at 10m
+  irradiance?: number; // kWh/m² during the hour, when the provider forecasts it
+}
+
+export interface WeatherForecast {
+  provider: ForecastProviderId;
+  fetchedAt: string; // ISO timestamp
+  hours: ForecastHour[]; // ascending by timestamp
+}
+
+const SETTINGS_KEY = 'enershift:weather-settings';
+
+const settingsSchema = z.object({
+  provider: z.enum(Object.keys(FORECAST_PROVIDERS) as [ForecastProviderId, ...ForecastProviderId[]]),
+  apiKey: z.string()
+});
+
+// The key stays in this browser's storage and only goes to the chosen provider.
+// Saves naming a provider this build no longer offers fall back to the defaults.
+export const loadWeatherSettings = (): WeatherSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}');
+    const result = settingsSchema.safeParse({ ...DEFAULT_WEATHER_SETTINGS, ...stored });
+    return result.success ? { ...DEFAULT_WEATHER_SETTINGS, ...result.data } : DEFAULT_WEATHER_SETTINGS;
+  } catch {
+    return DEFAULT_WEATHER_SETTINGS;
+  }
+};
+
+export const saveWeatherSettings = (settings: WeatherSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage is unavailable; the settings just won't survive a reload
+  }
+};
+
+const series = z.array(z.number().nullable());
+
+const openMeteoSchema = z.object({
+  hourly: z.object({
+    time: z.array(z.number()), // unix seconds, end of the hour for radiation
+    temperature_2m: series,
+    cloud_cover: series,
+    wind_speed_10m: series,
+    shortwave_radiation: series.optional() // W/m² mean over the preceding hour
+  })
+});
+
+const oneCallSchema = z.object({
+  hourly: z.array(z.object({
+    dt: z.number(), // unix seconds
+    temp: z.number(),
+    clouds: z.number().min(0).max(100),
+    wind_speed: z.number().min(0)
+  }))
+});
+
+// Open-Meteo stamps radiation at the end of the hour it averages; temperature
+// and wind are read at that same instant, close enough for an hourly model.
+const parseOpenMeteo = ({ hourly }: z.infer<typeof openMeteoSchema>): ForecastHour[] =>
+  hourly.time
+    .map((time, i) => ({
+      timestamp: time * 1000 - HOUR,
+      cloudCover: hourly.cloud_cover[i],
+      temperature: hourly.temperature_2m[i],
+      windSpeed: hourly.wind_speed_10m[i],
+      radiation: hourly.shortwave_radiation?.[i]
+    }))
+    .filter(hour => [hour.cloudCover, hour.temperature, hour.windSpeed].every(value => value !== null && value !== undefined))
+    .map(({ radiation, ...hour }) => (typeof radiation === 'number' ? { ...hour, irradiance: radiation / 1000 } : hour));
+
+const openMeteoUrl = (latitude: number, longitude: number) =>
+  `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}` +
+  '&hourly=temperature_2m,cloud_cover,wind_speed_10m,shortwave_radiation' +
+  '&wind_speed_unit=ms&timezone=GMT&timeformat=unixtime&forecast_days=3';
+
+// Hourly cloud cover, temperature and wind for the next few days from the
+// configured provider.
+export const fetchForecast = async (
+  settings: WeatherSettings,
+  latitude: number,
+  longitude: number
+): Promise<WeatherForecast> => {
+  const { label, needsKey } = FORECAST_PROVIDERS[settings.provider];
+  if (needsKey && !settings.apiKey.trim()) {
+    throw apiError('input', label, `Enter an API key for ${label} in the weather settings`);
+  }
+
+  let hours: ForecastHour[];
+  switch (settings.provider) {
+    case 'openweathermap': {
+      const { hourly } = await fetchJson(
+        'https://api.openweathermap.org/data/3.0/onecall' +
+          `?lat=${latitude}&lon=${longitude}&exclude=current,minutely,daily,alerts&units=metric` +
+          `&appid=${encodeURIComponent(settings.apiKey.trim())}`,
+        oneCallSchema,
+        label
+      );
+      hours = hourly.map(hour => ({
+        timestamp: hour.dt * 1000,
+        cloudCover: hour.clouds,
+        temperature: hour.temp,
+        windSpeed: hour.wind_speed
+      }));
+      break;
+    }
+    case 'mock':
+      hours = parseOpenMeteo(openMeteoSchema.parse(mockOpenMeteoForecast(longitude)));
+      break;
+    default:
+      hours = parseOpenMeteo(await fetchJson(openMeteoUrl(latitude, longitude), openMeteoSchema, label));
+  }
+
+  if (hours.length === 0) throw apiError('fill-value', label, `${label} returned no usable forecast hours`);
+  return { provider: settings.provider, fetchedAt: new Date().toISOString(), hours };
+};
+
+// Kasten & Czeplak (1980): share of clear-sky irradiance reaching the ground
+// under a given cloud cover.
+export const cloudTransmittance = (cloudCover: number) => 1 - 0.75 * (Math.min(100, Math.max(0, cloudCover)) / 100) ** 3.4;
+
+// The forecast hours from the current hour to FORECAST_HOURS ahead.
+export const upcomingHours = (forecast: WeatherForecast, now = Date.now()) => {
+  const from = Math.floor(now / HOUR) * HOUR;
+  return forecast.hours.filter(hour => hour.timestamp >= from && hour.timestamp < from + FORECAST_HOURS * HOUR);
+};
+
+// Forecast hours as the hourly resource the dispatch model runs on, one entry
+// per hour in the same order. Providers without an irradiance forecast get
+// clear-sky irradiance dimmed by the cloud cover.
+export const forecastResource = (
+  hours: ForecastHour[],
+  latitude: number,
+  longitude: number,
+  timeZone: string
+): HourlyResource[] => {
+  const points: HourlyPoint[] = hours.map(hour => ({
+    timestamp: hour.timestamp,
+    irradiance: hour.irradiance ??
+      clearSkyIrradiance(latitude, longitude, hour.timestamp) * cloudTransmittance(hour.cloudCover),
+    temperature: hour.temperature,
+    windSpeed: hour.windSpeed
+  }));
+  return toHourlyResource({ timeZone, points }, longitude);
+};
+
+// Plain-language sky condition for a cloud cover percentage.
+export const skyCondition = (cloudCover: number) =>
+  cloudCover < 20 ? 'Clear' : cloudCover < 60 ? 'Partly cloudy' : cloudCover < 90 ? 'Mostly cloudy' : 'Overcast';
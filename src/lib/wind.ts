@@ -0,0 +1,181 @@
+export type ShearModel = 'log' | 'power';
+
+export type TerrainRoughness = 'open-water' | 'open-field' | 'crops' | 'villages' | 'forest';
+
+export interface PowerCurvePoint {
+  speed: number; // m/s at hub height
+  power: number; // kW
+}
+
+export interface TurbineModel {
+  id: string;
+  name: string;
+  ratedPower: number; // kW
+  cutIn: number; // m/s
+  ratedSpeed: number; // m/s
+  cutOut: number; // m/s
+  curve: PowerCurvePoint[];
+}
+
+export interface WindTurbineConfig {
+  turbine: TurbineModel;
+  count: number;
+  hubHeight: number; // m
+  shear: ShearModel;
+  roughness: TerrainRoughness;
+  losses: number; // availability, wake and electrical losses, fraction
+}
+
+export const MEASUREMENT_HEIGHT = 10; // WS10M
+
+// Roughness length (m) for the log law and shear exponent for the power law
+export const TERRAIN_ROUGHNESS: Record<TerrainRoughness, { label: string; length: number; exponent: number }> = {
+  'open-water': { label: 'Open water', length: 0.0002, exponent: 0.1 },
+  'open-field': { label: 'Open field', length: 0.03, exponent: 0.14 },
+  crops: { label: 'Crops & hedges', length: 0.1, exponent: 0.16 },
+  villages: { label: 'Villages & scattered trees', length: 0.4, exponent: 0.22 },
+  forest: { label: 'Forest', length: 1, exponent: 0.28 }
+};
+
+const curve = (points: Array<[number, number]>): PowerCurvePoint[] =>
+  points.map(([speed, power]) => ({ speed, power }));
+
+export const TURBINE_PRESETS: TurbineModel[] = [
+  {
+    id: 'small-1kw',
+    name: '1 kW micro turbine',
+    ratedPower: 1,
+    cutIn: 2.5,
+    ratedSpeed: 11,
+    cutOut: 25,
+    curve: curve([[2.5, 0], [3, 0.03], [4, 0.08], [5, 0.16], [6, 0.28], [7, 0.43], [8, 0.6], [9, 0.76], [10, 0.9], [11, 1]])
+  },
+  {
+    id: 'small-3kw',
+    name: '3 kW farm turbine',
+    ratedPower: 3,
+    cutIn: 3,
+    ratedSpeed: 12,
+    cutOut: 20,
+    curve: curve([[3, 0], [4, 0.2], [5, 0.42], [6, 0.75], [7, 1.2], [8, 1.7], [9, 2.2], [10, 2.65], [11, 2.9], [12, 3]])
+  },
+  {
+    id: 'small-5kw',
+    name: '5 kW village turbine',
+    ratedPower: 5,
+    cutIn: 3,
+    ratedSpeed: 12,
+    cutOut: 25,
+    curve: curve([[3, 0], [4, 0.3], [5, 0.65], [6, 1.15], [7, 1.8], [8, 2.6], [9, 3.4], [10, 4.1], [11, 4.6], [12, 5]])
+  },
+  {
+    id: 'small-10kw',
+    name: '10 kW community turbine',
+    ratedPower: 10,
+    cutIn: 3.5,
+    ratedSpeed: 12,
+    cutOut: 25,
+    curve: curve([[3.5, 0], [4, 0.4], [5, 1.1], [6, 2.1], [7, 3.4], [8, 5], [9, 6.7], [10, 8.2], [11, 9.3], [12, 10]])
+  }
+];
+
+export const DEFAULT_WIND_TURBINE: WindTurbineConfig = {
+  turbine: TURBINE_PRESETS[0],
+  count: 1,
+  hubHeight: 18,
+  shear: 'power',
+  roughness: 'villages',
+  losses: 0.1
+};
+
+// Builds a user-defined turbine; cut-in and rated speed come from the curve.
+export const customTurbine = (points: PowerCurvePoint[], cutOut = 25): TurbineModel => {
+  const sorted = [...points]
+    .filter(p => Number.isFinite(p.speed) && Number.isFinite(p.power) && p.speed >= 0 && p.power >= 0)
+    .sort((a, b) => a.speed - b.speed);
+  const ratedPower = sorted.reduce((max, p) => Math.max(max, p.power), 0);
+  const rated = sorted.find(p => p.power >= ratedPower);
+
+  return {
+    id: 'custom',
+    name: 'Custom power curve',
+    ratedPower,
+    cutIn: sorted[0]?.speed ?? 0,
+    ratedSpeed: rated?.speed ?? 0,
+    cutOut,
+    curve: sorted
+  };
+};
+
+// Parses "speed:kW" pairs, e.g. "3:0, 6:0.8, 11:3".
+export const parsePowerCurve = (text: string): PowerCurvePoint[] =>
+  text
+    .split(/[,;\n]/)
+    .map(pair => pair.trim().split(':').map(Number))
+    .filter(([speed, power]) => Number.isFinite(speed) && Number.isFinite(power))
+    .map(([speed, power]) => ({ speed, power }));
+
+export const formatPowerCurve = (points: PowerCurvePoint[]) =>
+  points.map(p => `${p.speed}:${p.power}`).join(', ');
+
+// Extrapolates the 10m wind speed to hub height.
+export const hubHeightSpeed = (
+  speed: number,
+  hubHeight: number,
+  shear: ShearModel,
+  roughness: TerrainRoughness
+) => {
+  if (speed <= 0 || hubHeight <= 0) return 0;
+  const terrain = TERRAIN_ROUGHNESS[roughness];
+  if (shear === 'log') {
+    return speed * Math.log(hubHeight / terrain.length) / Math.log(MEASUREMENT_HEIGHT / terrain.length);
+  }
+  return speed * (hubHeight / MEASUREMENT_HEIGHT) ** terrain.exponent;
+};
+
+// Instantaneous turbine output (kW) from the power curve, linearly interpolated
+// between points and held at the last point up to cut-out.
+export const turbinePower = (turbine: TurbineModel, speed: number) => {
+  if (speed < turbine.cutIn || speed >= turbine.cutOut || turbine.curve.length === 0) return 0;
+
+  const { curve: points } = turbine;
+  if (speed >= points[points.length - 1].speed) return points[points.length - 1].power;
+
+  for (let i = 1; i < points.length; i++) {
+    const lower = points[i - 1];
+    const upper = points[i];
+    if (speed <= upper.speed) {
+      const fraction = (speed - lower.speed) / (upper.speed - lower.speed || 1);
+      return lower.power + fraction * (upper.power - lower.power);
+    }
+  }
+  return 0;
+};
+
+const RAYLEIGH_STEPS = 60;
+
+// Mean output (kW) when wind speed is only known as a period mean. Speeds within
+// the period are assumed Rayleigh distributed (Weibull k = 2) about that mean.
+export const expectedTurbinePower = (turbine: TurbineModel, meanSpeed: number) => {
+  if (meanSpeed <= 0) return 0;
+  const scale = meanSpeed / (Math.sqrt(Math.PI) / 2);
+  const maxSpeed = Math.max(turbine.cutOut, meanSpeed * 4);
+  const step = maxSpeed / RAYLEIGH_STEPS;
+
+  let power = 0;
+  for (let i = 0; i < RAYLEIGH_STEPS; i++) {
+    const speed = (i + 0.5) * step;
+    const density = (2 * speed / scale ** 2) * Math.exp(-((speed / scale) ** 2));
+    power += turbinePower(turbine, speed) * density * step;
+  }
+  return power;
+};
+
+export const windFarmCapacity = (config: WindTurbineConfig) => config.turbine.ratedPower * config.count;
+
+// Energy delivered by all turbines during one hour (kWh), given the mean 10m
+// wind speed for that hour.
+export const windHourlyOutput = (config: WindTurbineConfig, windSpeed: number) => {
+  const speed = hubHeightSpeed(windSpeed, config.hubHeight, config.shear, config.roughness);
+  return expectedTurbinePower(config.turbine, speed) * config.count * (1 - config.losses);
+};
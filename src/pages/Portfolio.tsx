@@ -0,0 +1,7 @@
+import SitePortfolio from '@/components/SitePortfolio';
+
+const Portfolio = () => {
+  return <SitePortfolio />;
+};
+
+export default Portfolio;
@@ -0,0 +1,129 @@
+export interface LocationData {
+  latitude: number;
+  longitude: number;
+  city: string;
+  region: string;
+  country: string;
+  timeZone?: string; // IANA zone, e.g. Asia/Kolkata
+}
+
+export interface DailyValue {
+  date: string; // YYYY-MM-DD
+  value: number;
+  imputed?: boolean; // interpolated across a missing day
+}
+
+export interface ResourceSeries {
+  current: number; // latest observed value
+  average: number;
+  peak: number;
+  data: Array<{ time: string; value: number; imputed?: boolean }>;
+  daily: DailyValue[];
+}
+
+export interface ParameterQuality {
+  expected: number; // days in the requested window
+  valid: number; // days with an observation
+  imputed: number; // missing days filled by interpolation
+  completeness: number; // valid / expected, 0–1
+  missing: string[]; // YYYY-MM-DD of days without an observation
+  lastValid: string | null; // YYYY-MM-DD of the latest observation
+}
+
+export interface DataQuality {
+  solar: ParameterQuality;
+  wind: ParameterQuality;
+  temperature: ParameterQuality;
+  interpolated: boolean; // whether interior gaps were filled
+}
+
+export interface EnergyData {
+  solar: ResourceSeries; // ALLSKY_SFC_SW_DWN, kWh/m²/day
+  wind: ResourceSeries; // WS10M, m/s
+  temperature: DailyValue[]; // T2M, °C
+  quality?: DataQuality; // completeness of the fetched window
+}
+
+export interface BatteryState {
+  capacity: number;
+  currentCharge: number;
+  percentage: number;
+  runtime: number;
+}
+
+export type LoadPriority = 'critical' | 'essential' | 'deferrable';
+
+export type DayType = 'weekday' | 'weekend';
+
+export type Season = 'summer' | 'monsoon' | 'winter';
+
+export interface TimeWindow {
+  start: number; // hour of day, 0-24, fractions allowed
+  end: number; // windows with end <= start run past midnight
+}
+
+export interface ScheduleVariant {
+  weekday?: TimeWindow[];
+  weekend?: TimeWindow[];
+  dutyCycle?: number;
+}
+
+export interface ApplianceSchedule {
+  weekday: TimeWindow[];
+  weekend?: TimeWindow[]; // same as weekday when omitted
+  dutyCycle: number; // fraction of each window spent at rated power
+  seasons?: Partial<Record<Season, ScheduleVariant>>;
+  allowed?: TimeWindow[]; // where a deferrable appliance may be moved to; fixed when omitted
+}
+
+export interface Appliance {
+  name: string;
+  power: number; // kW
+  priority: LoadPriority;
+  schedule: ApplianceSchedule;
+}
+
+// Imported measurements either stand in for the modelled data or correct its level
+export type ImportMode = 'replace' | 'calibrate';
+
+export interface MeasuredLoad {
+  fileName: string;
+  mode: ImportMode;
+  weekday: number[]; // mean kWh in each hour of a weekday
+  weekend: number[]; // weekday values when the log has no weekends
+  days: number; // days with readings
+  completeness: number; // share of hours present over the logged period
+}
+
+export interface EnergyConsumption {
+  dailyDemand: number;
+  peakHours: string;
+  appliances: Appliance[];
+  measuredLoad?: MeasuredLoad | null; // smart-meter log replacing or calibrating the appliance load
+}
+
+// Monthly consumption block; slabs are listed in ascending order
+export interface TariffSlab {
+  upTo: number | null; // kWh/month upper bound, null for the last slab
+  rate: number; // ₹/kWh
+}
+
+// Time-of-day band scaling the energy rate, e.g. 1.2 for a 20% peak surcharge
+export interface TimeOfDayBand {
+  start: number; // hour of day, 0-24
+  end: number; // exclusive, may wrap past midnight
+  multiplier: number;
+}
+
+export type ExportMode = 'none' | 'net-metering' | 'gross-metering';
+
+export interface TariffSettings {
+  gridCost: number; // ₹/kWh, the energy rate when no slabs are set
+  preset?: string; // TARIFF_PRESETS id the settings started from
+  slabs?: TariffSlab[];
+  timeOfDay?: TimeOfDayBand[];
+  fixedCharge?: number; // ₹/month
+  demandCharge?: number; // ₹/kW of the month's peak hourly import
+  exportMode?: ExportMode;
+  exportRate?: number; // ₹/kWh credited for exported energy
+}